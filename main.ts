@@ -1,17 +1,120 @@
-import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, ItemView, TFile, TFolder, Menu, Modal, Notice, setIcon } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, ItemView, TFile, TFolder, Menu, Modal, FuzzySuggestModal, Notice, setIcon, getAllTags, parseYaml, MarkdownRenderer, Component, loadPdfJs, moment } from 'obsidian';
+import type { AllCanvasNodeData, CanvasData, CanvasFileData, NodeSide } from 'obsidian/canvas';
 
 const VIEW_TYPE_FILE_TREE_PREVIEW = "file-tree-preview-view";
 
 // Shared localStorage key for pin-to-top compatibility with File Tree Alternative plugin
 const PINNED_FILES_KEY = "fileTreePlugin-PinnedFiles";
 
-type SortOrder = "name-asc" | "name-desc" | "modified-new" | "modified-old" | "created-new" | "created-old";
+// Drag data type for dragging several selected preview cards at once
+const SELECTED_FILES_DRAG_TYPE = "application/x-ftpreview-files";
+
+// Virtualized preview list: extra pixels rendered above and below the visible area
+const PREVIEW_OVERSCAN_PX = 400;
+// Card and group header heights used until one has been measured
+const DEFAULT_CARD_HEIGHT = 80;
+const DEFAULT_GROUP_HEADER_HEIGHT = 28;
+// Narrowest gallery tile - the grid fits as many columns of at least this width as the pane allows
+const GALLERY_MIN_COLUMN_WIDTH = 160;
+// Maximum number of files read at once for preview text
+const MAX_CONCURRENT_TEXT_LOADS = 4;
+// Delay for coalescing bursts of vault events (bulk imports, syncs)
+const VAULT_EVENT_DEBOUNCE_MS = 100;
+// Delay after the last edit to a file before its card is updated
+const CARD_UPDATE_DEBOUNCE_MS = 1500;
+
+// Code block languages that run queries or draw diagrams - too heavy for rendered previews, shown by name instead
+const RENDERED_PREVIEW_SKIPPED_LANGUAGES = ["dataview", "dataviewjs", "query", "tasks", "mermaid", "base", "chart", "excalidraw"];
+
+// Persistent preview cache: file name in the plugin folder, entry limit, and save delay
+const PREVIEW_CACHE_FILE = "preview-cache.json";
+const PREVIEW_CACHE_MAX_ENTRIES = 5000;
+const PREVIEW_CACHE_SAVE_DELAY_MS = 2000;
+// Bumped when entries change shape - older cache files are ignored and rebuilt
+const PREVIEW_CACHE_VERSION = 2;
+
+// Linked notes listed in a link badge menu before the rest are summarized
+const LINK_MENU_MAX_ITEMS = 50;
+
+// Reading speed used for the reading time in card footers
+const READING_WORDS_PER_MINUTE = 200;
+
+// File thumbnails (PDF first pages, canvas miniatures, video frames, audio waveforms): in-memory entry limit, render height in CSS pixels, and files rendered at once
+const THUMBNAIL_CACHE_MAX_ENTRIES = 500;
+const THUMBNAIL_RENDER_HEIGHT_PX = 160;
+const MAX_CONCURRENT_THUMBNAIL_LOADS = 1;
+// Media files: time allowed to load metadata or a frame
+const MEDIA_LOAD_TIMEOUT_MS = 10000;
+// Audio waveforms: bar count, and the sample rate they are decoded at - low, since only peaks per bar are needed
+const AUDIO_WAVEFORM_BARS = 48;
+const AUDIO_WAVEFORM_SAMPLE_RATE = 3000;
+// Longer audio only shows its duration - decoding may hold the full-rate samples (assumed 48 kHz stereo float) for a moment
+const AUDIO_WAVEFORM_MAX_DECODED_BYTES = 128 * 1024 * 1024;
+
+// Linked notes named in a canvas card label before the rest are summarized as "and N more"
+const CANVAS_LINKED_NOTES_SHOWN = 3;
+
+// Canvas preset colors "1" to "6", resolved from the theme like the canvas itself
+const CANVAS_COLOR_VARIABLES = ["--color-red", "--color-orange", "--color-yellow", "--color-green", "--color-cyan", "--color-purple"];
+
+type SortOrder = "name-asc" | "name-desc" | "modified-new" | "modified-old" | "created-new" | "created-old" | "property" | "manual";
+
+type MissingPropertyPlacement = "first" | "last";
+
+type NewFilePlacement = "top" | "bottom";
+
+type CardLayout = "cards" | "gallery" | "titles";
+
+type FolderSortOrder = "name" | "modified" | "file-count" | "manual";
+
+type FolderCountBadge = "none" | "direct" | "recursive" | "both";
+
+type FileCategory = "notes" | "canvases" | "images" | "pdfs" | "media" | "other";
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a', 'flac', 'aac', 'wma'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'mkv', 'avi', 'wmv', 'flv'];
+
+const FILE_CATEGORY_LABELS: Record<FileCategory, string> = {
+	notes: "Notes",
+	canvases: "Canvases",
+	images: "Images",
+	pdfs: "PDFs",
+	media: "Audio and video",
+	other: "Other files"
+};
+
+const CARD_LAYOUT_LABELS: Record<CardLayout, string> = {
+	cards: "List with previews",
+	gallery: "Gallery grid",
+	titles: "Titles only"
+};
+
+const SORT_ORDER_LABELS: Record<SortOrder, string> = {
+	"name-asc": "Name (a to z)",
+	"name-desc": "Name (z to a)",
+	"modified-new": "Date modified (newest first)",
+	"modified-old": "Date modified (oldest first)",
+	"created-new": "Date created (newest first)",
+	"created-old": "Date created (oldest first)",
+	"property": "Property",
+	"manual": "Manual"
+};
 
 type FolderIconStyle = "none" | "custom" | "folder";
 
+type PreviewSource = "body" | "after-heading" | "property" | "section";
+
+type FooterDateStyle = "off" | "relative" | "absolute";
+
+type CoverLayout = "off" | "beside" | "above";
+
+// Where preview text comes from when the chosen source is empty: each source falls back to the ones after it
+const PREVIEW_SOURCE_CHAIN: PreviewSource[] = ["property", "section", "after-heading", "body"];
+
 interface FileTreePreviewData {
 	collapsedFolders: string[];
 	sortOrder: SortOrder;
+	cardLayout: CardLayout;
 	treeWidth: number;
 	previewLines: number;
 	removeLinkBrackets: boolean;
@@ -22,11 +125,39 @@ interface FileTreePreviewData {
 	folderIconStyle: FolderIconStyle;
 	showRootFolder: boolean;
 	pinnedFiles: string[];
+	includeSubfolders: boolean;
+	sortProperty: string;
+	sortPropertyDescending: boolean;
+	sortPropertyMissing: MissingPropertyPlacement;
+	manualOrder: Record<string, string[]>;
+	manualOrderNewFiles: NewFilePlacement;
+	folderPresets: Record<string, FolderViewPreset>;
+	folderSortOrder: FolderSortOrder;
+	folderManualOrder: Record<string, string[]>;
+	pinnedFolders: string[];
+	folderCountBadge: FolderCountBadge;
+	showNewFilesBadge: boolean;
+	folderLastVisited: Record<string, number>;
+	collapsedGroups: Record<string, string[]>;
+	showCardTags: boolean;
+	cardProperties: string[];
+	previewSource: PreviewSource;
+	previewSourceProperties: string[];
+	previewSourceHeading: string;
+	renderMarkdownPreviews: boolean;
+	coverLayout: CoverLayout;
+	showTaskProgress: boolean;
+	showLinkBadges: boolean;
+	footerDate: FooterDateStyle;
+	showFooterSize: boolean;
+	showFooterWordCount: boolean;
+	showFooterReadingTime: boolean;
 }
 
 const DEFAULT_DATA: FileTreePreviewData = {
 	collapsedFolders: [],
 	sortOrder: "name-asc",
+	cardLayout: "cards",
 	treeWidth: 300,
 	previewLines: 4,
 	removeLinkBrackets: true,
@@ -36,9 +167,129 @@ const DEFAULT_DATA: FileTreePreviewData = {
 	showHoverEffect: false,
 	folderIconStyle: "custom",
 	showRootFolder: true,
-	pinnedFiles: []
+	pinnedFiles: [],
+	includeSubfolders: false,
+	sortProperty: "",
+	sortPropertyDescending: false,
+	sortPropertyMissing: "last",
+	manualOrder: {},
+	manualOrderNewFiles: "top",
+	folderPresets: {},
+	folderSortOrder: "name",
+	folderManualOrder: {},
+	pinnedFolders: [],
+	folderCountBadge: "none",
+	showNewFilesBadge: false,
+	folderLastVisited: {},
+	collapsedGroups: {},
+	showCardTags: false,
+	cardProperties: [],
+	previewSource: "body",
+	previewSourceProperties: ["summary", "description"],
+	previewSourceHeading: "",
+	renderMarkdownPreviews: false,
+	coverLayout: "off",
+	showTaskProgress: false,
+	showLinkBadges: false,
+	footerDate: "off",
+	showFooterSize: false,
+	showFooterWordCount: false,
+	showFooterReadingTime: false
 };
 
+// View options saved for one folder - unset fields fall back to an ancestor's preset or the global setting
+interface FolderViewPreset {
+	sortOrder?: SortOrder;
+	sortProperty?: string;
+	sortPropertyDescending?: boolean;
+	sortPropertyMissing?: MissingPropertyPlacement;
+	previewLines?: number;
+	cardLayout?: CardLayout;
+	fileTypes?: FileCategory[];
+	openTasksOnly?: boolean;
+	applyToSubfolders: boolean;
+}
+
+// View options in effect for the selected folder
+interface FolderViewSettings {
+	sortOrder: SortOrder;
+	sortProperty: string;
+	sortPropertyDescending: boolean;
+	sortPropertyMissing: MissingPropertyPlacement;
+	previewLines: number;
+	cardLayout: CardLayout;
+	fileTypes: FileCategory[] | null;
+	openTasksOnly: boolean;
+	presetPath: string | null;
+}
+
+// Cached card data for one file, valid while mtime, size and extraction settings are unchanged
+// Only data that needs a file read is kept here - titles, dates, tags, properties, tasks and links
+// come from the file stat and the metadata cache, which Obsidian already persists between sessions
+interface PreviewCacheEntry {
+	mtime: number;
+	size: number;
+	settingsKey: string;
+	previewText: string;
+	wordCount: number;
+}
+
+interface ThumbnailCacheEntry {
+	mtime: number;
+	size: number;
+	// Empty when the file could not be rendered, so it is not retried until it changes
+	dataUrl: string;
+	// Extra detail shown in the card label, e.g. the page count
+	detail: string;
+}
+
+interface PreviewCacheData {
+	version: number;
+	entries: [string, PreviewCacheEntry][];
+}
+
+interface SortPropertyOptions {
+	property: string;
+	descending: boolean;
+	missing: MissingPropertyPlacement;
+}
+
+// Frontmatter value prepared for sorting: numbers, then dates, then text
+interface PropertySortValue {
+	rank: number;
+	value: number | string;
+}
+
+// Filter typed as "#tag" or "[property:value]", matched against the metadata cache instead of preview text
+type MetadataFilter = { type: "tag"; tag: string } | { type: "property"; key: string; value: string };
+
+// Date or "Pinned" group of cards in the preview list, shown under a collapsible header
+interface PreviewGroup {
+	id: string;
+	label: string;
+	count: number;
+	collapsed: boolean;
+}
+
+// One row of the virtualized preview list
+type PreviewRow = { type: "group"; group: PreviewGroup } | { type: "card"; file: TFile } | { type: "grid"; files: TFile[] };
+
+// Badge counts for one folder: files directly inside, files at any depth, and direct files new since the last visit
+interface FolderFileCounts {
+	direct: number;
+	recursive: number;
+	recent: number;
+}
+
+// Rendered DOM for one folder in the tree, keyed by folder path
+interface FolderNode {
+	el: HTMLElement;
+	header: HTMLElement;
+	content: HTMLElement;
+	level: number;
+	parentPath: string | null;
+}
+
 interface IconizePlugin {
 	data: Record<string, unknown>;
 	api: {
@@ -46,12 +297,189 @@ interface IconizePlugin {
 	};
 }
 
+// True if path is the given file or folder, or lies inside that folder
+function isPathWithin(path: string, folderPath: string): boolean {
+	return path === folderPath || path.startsWith(folderPath + "/");
+}
+
+// Natural name order, so "Week 2" comes before "Week 10"
+function compareFolderNames(a: TFolder, b: TFolder): number {
+	return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: "base" });
+}
+
+// Path after renaming oldPath to newPath, for the item itself and anything inside it
+function renamePath(path: string, oldPath: string, newPath: string): string {
+	return isPathWithin(path, oldPath) ? newPath + path.substring(oldPath.length) : path;
+}
+
+// Remove the entries of a deleted folder and its subfolders from a record keyed by folder path
+function removeFolderKeys<T>(record: Record<string, T>, path: string): boolean {
+	const folderPaths = Object.keys(record).filter(folderPath => isPathWithin(folderPath, path));
+	folderPaths.forEach(folderPath => delete record[folderPath]);
+	return folderPaths.length > 0;
+}
+
+// Move the entries of a renamed folder and its subfolders in a record keyed by folder path
+function renameFolderKeys<T>(record: Record<string, T>, oldPath: string, newPath: string): boolean {
+	const folderPaths = Object.keys(record).filter(folderPath => isPathWithin(folderPath, oldPath));
+	folderPaths.forEach(folderPath => {
+		const value = record[folderPath];
+		delete record[folderPath];
+		record[renamePath(folderPath, oldPath, newPath)] = value;
+	});
+	return folderPaths.length > 0;
+}
+
+// Remove a deleted item from saved orders, which are lists of child paths keyed by folder path
+function removeFromOrders(orders: Record<string, string[]>, path: string): boolean {
+	let changed = false;
+	Object.keys(orders).forEach(folderPath => {
+		if (isPathWithin(folderPath, path)) {
+			delete orders[folderPath];
+			changed = true;
+			return;
+		}
+		const order = orders[folderPath].filter(entry => !isPathWithin(entry, path));
+		if (order.length !== orders[folderPath].length) {
+			orders[folderPath] = order;
+			changed = true;
+		}
+	});
+	return changed;
+}
+
+// Saved orders after a rename, or null if nothing changed
+function renameInOrders(orders: Record<string, string[]>, oldPath: string, newPath: string): Record<string, string[]> | null {
+	let changed = false;
+	const renamed: Record<string, string[]> = {};
+
+	Object.keys(orders).forEach(folderPath => {
+		const newFolderPath = renamePath(folderPath, oldPath, newPath);
+		const entries = orders[folderPath];
+		// An item moved out of the folder loses its place there and counts as new where it lands
+		const order = entries
+			.map(entry => renamePath(entry, oldPath, newPath))
+			.filter(entry => newFolderPath === "/" || entry.startsWith(newFolderPath + "/"));
+
+		if (newFolderPath !== folderPath || order.length !== entries.length || order.some((entry, i) => entry !== entries[i])) {
+			changed = true;
+		}
+		renamed[newFolderPath] = order;
+	});
+
+	return changed ? renamed : null;
+}
+
+function isPresetEmpty(preset: FolderViewPreset): boolean {
+	// A preset that changes nothing is removed rather than saved
+	return preset.sortOrder === undefined && preset.sortProperty === undefined && preset.sortPropertyDescending === undefined
+		&& preset.sortPropertyMissing === undefined && preset.previewLines === undefined && preset.cardLayout === undefined
+		&& preset.fileTypes === undefined && preset.openTasksOnly === undefined;
+}
+
+function splitFrontmatter(content: string): { frontmatter: string; body: string } {
+	// YAML frontmatter between --- delimiters, and the rest of the note
+	const text = content.trim();
+	if (text.startsWith("---")) {
+		// Find the closing --- (must be on its own line)
+		const lines = text.split("\n");
+		for (let i = 1; i < lines.length; i++) {
+			if (lines[i].trim() === "---") {
+				return { frontmatter: lines.slice(1, i).join("\n"), body: lines.slice(i + 1).join("\n").trim() };
+			}
+		}
+	}
+	return { frontmatter: "", body: text };
+}
+
+function countWords(text: string): number {
+	// Whitespace-separated runs with at least one letter or digit, so list markers and rules don't count
+	return text.split(/\s+/).filter(token => /[A-Za-z0-9\u00C0-\uFFFF]/.test(token)).length;
+}
+
+function formatFileSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	const units = ["KB", "MB", "GB"];
+	let size = bytes / 1024;
+	let unit = 0;
+	while (size >= 1024 && unit < units.length - 1) {
+		size /= 1024;
+		unit++;
+	}
+	return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+}
+
+function formatDuration(seconds: number): string {
+	// m:ss, or h:mm:ss for an hour or longer
+	const total = Math.round(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = String(total % 60).padStart(2, "0");
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+function waitForMediaEvent(media: HTMLMediaElement, eventName: string): Promise<void> {
+	// Resolve on the event, or reject if the media fails to load or takes too long
+	return new Promise((resolve, reject) => {
+		const cleanup = () => {
+			window.clearTimeout(timer);
+			media.removeEventListener(eventName, onEvent);
+			media.removeEventListener("error", onError);
+		};
+		const onEvent = () => {
+			cleanup();
+			resolve();
+		};
+		const onError = () => {
+			cleanup();
+			reject(new Error(media.error?.message || "Media could not be loaded"));
+		};
+		const timer = window.setTimeout(() => {
+			cleanup();
+			reject(new Error("Timed out loading media"));
+		}, MEDIA_LOAD_TIMEOUT_MS);
+		media.addEventListener(eventName, onEvent);
+		media.addEventListener("error", onError);
+	});
+}
+
+function releaseMediaElement(media: HTMLMediaElement) {
+	// Stop loading and free the decoder
+	media.pause();
+	media.removeAttribute("src");
+	media.load();
+	media.remove();
+}
+
 export default class FileTreePreviewPlugin extends Plugin {
 	data: FileTreePreviewData;
+	previewCache: PreviewCache;
+	thumbnailCache: ThumbnailCache = new ThumbnailCache();
 
 	async onload() {
 		await this.loadPluginData();
 
+		this.previewCache = new PreviewCache(this);
+		await this.previewCache.load();
+
+		// Keep cached previews, thumbnails and manual card order in step with deleted and renamed files
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.previewCache.delete(file.path);
+				this.thumbnailCache.delete(file.path);
+				this.removeFromSavedOrders(file.path);
+				this.removeFolderSettings(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.previewCache.rename(oldPath, file.path);
+				this.thumbnailCache.rename(oldPath, file.path);
+				this.renameInSavedOrders(oldPath, file.path);
+				this.renameFolderSettings(oldPath, file.path);
+			})
+		);
+
 		this.registerView(
 			VIEW_TYPE_FILE_TREE_PREVIEW,
 			(leaf) => new FileTreePreviewView(leaf, this)
@@ -71,6 +499,9 @@ export default class FileTreePreviewPlugin extends Plugin {
 
 		this.addSettingTab(new FileTreePreviewSettingTab(this.app, this));
 
+		// Visit times of folders removed while the plugin wasn't running are dropped once the vault is loaded
+		this.app.workspace.onLayoutReady(() => this.pruneFolderVisits());
+
 		// Handle launch behavior based on device type
 		const isTouchDevice = ('ontouchstart' in window) || (navigator.maxTouchPoints > 0);
 		if (isTouchDevice) {
@@ -88,6 +519,7 @@ export default class FileTreePreviewPlugin extends Plugin {
 
 	onunload() {
 		// Don't detach leaves - let user keep their layout
+		this.previewCache.flush();
 	}
 
 	async loadPluginData() {
@@ -105,6 +537,68 @@ export default class FileTreePreviewPlugin extends Plugin {
 		await super.saveData(this.data);
 	}
 
+	private removeFromSavedOrders(path: string) {
+		// Drop a deleted file, or everything under a deleted folder, from saved card and folder orders and pins
+		const cardsChanged = removeFromOrders(this.data.manualOrder, path);
+		const foldersChanged = removeFromOrders(this.data.folderManualOrder, path);
+		const pinnedFolders = this.data.pinnedFolders.filter(folderPath => !isPathWithin(folderPath, path));
+		const pinsChanged = pinnedFolders.length !== this.data.pinnedFolders.length;
+		this.data.pinnedFolders = pinnedFolders;
+
+		if (cardsChanged || foldersChanged || pinsChanged) {
+			this.savePluginData().catch(console.error);
+		}
+	}
+
+	private removeFolderSettings(path: string) {
+		// Forget view presets, collapsed groups and visit times of a deleted folder and its subfolders
+		const presetsChanged = removeFolderKeys(this.data.folderPresets, path);
+		const groupsChanged = removeFolderKeys(this.data.collapsedGroups, path);
+		const visitsChanged = removeFolderKeys(this.data.folderLastVisited, path);
+		if (presetsChanged || groupsChanged || visitsChanged) {
+			this.savePluginData().catch(console.error);
+		}
+	}
+
+	private pruneFolderVisits() {
+		const missingPaths = Object.keys(this.data.folderLastVisited)
+			.filter(path => path !== "/" && !(this.app.vault.getAbstractFileByPath(path) instanceof TFolder));
+		missingPaths.forEach(path => delete this.data.folderLastVisited[path]);
+		if (missingPaths.length > 0) {
+			this.savePluginData().catch(console.error);
+		}
+	}
+
+	private renameFolderSettings(oldPath: string, newPath: string) {
+		// Keep per-folder settings attached to renamed or moved folders
+		const presetsChanged = renameFolderKeys(this.data.folderPresets, oldPath, newPath);
+		const groupsChanged = renameFolderKeys(this.data.collapsedGroups, oldPath, newPath);
+		const visitsChanged = renameFolderKeys(this.data.folderLastVisited, oldPath, newPath);
+		if (presetsChanged || groupsChanged || visitsChanged) {
+			this.savePluginData().catch(console.error);
+		}
+	}
+
+	private renameInSavedOrders(oldPath: string, newPath: string) {
+		// Carry saved card and folder orders and folder pins through renames
+		const manualOrder = renameInOrders(this.data.manualOrder, oldPath, newPath);
+		const folderManualOrder = renameInOrders(this.data.folderManualOrder, oldPath, newPath);
+		const pinnedFolders = this.data.pinnedFolders.map(folderPath => renamePath(folderPath, oldPath, newPath));
+		const pinsChanged = pinnedFolders.some((folderPath, i) => folderPath !== this.data.pinnedFolders[i]);
+
+		if (manualOrder) {
+			this.data.manualOrder = manualOrder;
+		}
+		if (folderManualOrder) {
+			this.data.folderManualOrder = folderManualOrder;
+		}
+		this.data.pinnedFolders = pinnedFolders;
+
+		if (manualOrder || folderManualOrder || pinsChanged) {
+			this.savePluginData().catch(console.error);
+		}
+	}
+
 	async activateView() {
 		const { workspace } = this.app;
 
@@ -124,9 +618,186 @@ export default class FileTreePreviewPlugin extends Plugin {
 	}
 }
 
+class PreviewCache {
+	// Extracted preview text and word count per file path, persisted in the plugin folder
+	// Map insertion order doubles as least-recently-used order for eviction
+	private entries: Map<string, PreviewCacheEntry> = new Map();
+	private plugin: FileTreePreviewPlugin;
+	private saveTimer: number | null = null;
+
+	constructor(plugin: FileTreePreviewPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get filePath(): string {
+		const pluginDir = this.plugin.manifest.dir ?? `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+		return `${pluginDir}/${PREVIEW_CACHE_FILE}`;
+	}
+
+	async load() {
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (!(await adapter.exists(this.filePath))) return;
+
+			const data = JSON.parse(await adapter.read(this.filePath)) as PreviewCacheData;
+			if (data.version === PREVIEW_CACHE_VERSION && Array.isArray(data.entries)) {
+				this.entries = new Map(data.entries);
+			}
+		} catch (error) {
+			// A missing or corrupt cache just means previews are read again
+			console.error("Failed to load preview cache:", error);
+			this.entries = new Map();
+		}
+	}
+
+	get(file: TFile, settingsKey: string): string | undefined {
+		// Only return entries that are still fresh for this file and these settings
+		const entry = this.entries.get(file.path);
+		if (!entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size || entry.settingsKey !== settingsKey) {
+			return undefined;
+		}
+
+		// Mark as recently used
+		this.entries.delete(file.path);
+		this.entries.set(file.path, entry);
+		return entry.previewText;
+	}
+
+	getWordCount(file: TFile, settingsKey: string): number | undefined {
+		// Word count read along with the preview text, under the same freshness rules
+		const entry = this.entries.get(file.path);
+		if (!entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size || entry.settingsKey !== settingsKey) {
+			return undefined;
+		}
+		return entry.wordCount;
+	}
+
+	peek(path: string): string | undefined {
+		// Return the last known preview text, even if the file has changed since
+		return this.entries.get(path)?.previewText;
+	}
+
+	set(file: TFile, settingsKey: string, previewText: string, wordCount: number) {
+		this.entries.delete(file.path);
+		this.entries.set(file.path, {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			settingsKey,
+			previewText,
+			wordCount
+		});
+
+		// Evict least recently used entries
+		while (this.entries.size > PREVIEW_CACHE_MAX_ENTRIES) {
+			const oldestPath = this.entries.keys().next().value as string;
+			this.entries.delete(oldestPath);
+		}
+		this.scheduleSave();
+	}
+
+	delete(path: string) {
+		if (this.entries.delete(path)) {
+			this.scheduleSave();
+		}
+	}
+
+	rename(oldPath: string, newPath: string) {
+		// Renames keep mtime, so entries stay valid under the new path
+		// Folder renames move every entry inside the folder
+		let changed = false;
+		Array.from(this.entries.entries()).forEach(([path, entry]) => {
+			if (path === oldPath || path.startsWith(oldPath + "/")) {
+				this.entries.delete(path);
+				this.entries.set(newPath + path.substring(oldPath.length), entry);
+				changed = true;
+			}
+		});
+		if (changed) {
+			this.scheduleSave();
+		}
+	}
+
+	private scheduleSave() {
+		// Batch writes while many previews are being read
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			this.save().catch(console.error);
+		}, PREVIEW_CACHE_SAVE_DELAY_MS);
+	}
+
+	flush() {
+		// Write any pending changes right away (on unload)
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+			this.save().catch(console.error);
+		}
+	}
+
+	private async save() {
+		const data: PreviewCacheData = {
+			version: PREVIEW_CACHE_VERSION,
+			entries: Array.from(this.entries.entries())
+		};
+		await this.plugin.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+	}
+}
+
+class ThumbnailCache {
+	// Rendered thumbnails per file path, kept in memory only - data URLs are too large to persist
+	// Map insertion order doubles as least-recently-used order for eviction
+	private entries: Map<string, ThumbnailCacheEntry> = new Map();
+
+	get(file: TFile): ThumbnailCacheEntry | undefined {
+		const entry = this.entries.get(file.path);
+		if (!entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size) {
+			return undefined;
+		}
+
+		// Mark as recently used
+		this.entries.delete(file.path);
+		this.entries.set(file.path, entry);
+		return entry;
+	}
+
+	set(file: TFile, dataUrl: string, detail: string) {
+		this.entries.delete(file.path);
+		this.entries.set(file.path, {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			dataUrl,
+			detail
+		});
+
+		// Evict least recently used entries
+		while (this.entries.size > THUMBNAIL_CACHE_MAX_ENTRIES) {
+			const oldestPath = this.entries.keys().next().value as string;
+			this.entries.delete(oldestPath);
+		}
+	}
+
+	delete(path: string) {
+		this.entries.delete(path);
+	}
+
+	rename(oldPath: string, newPath: string) {
+		// Folder renames move every entry inside the folder
+		Array.from(this.entries.entries()).forEach(([path, entry]) => {
+			if (path === oldPath || path.startsWith(oldPath + "/")) {
+				this.entries.delete(path);
+				this.entries.set(newPath + path.substring(oldPath.length), entry);
+			}
+		});
+	}
+}
+
 class FileTreePreviewView extends ItemView {
 	private mainLayout: HTMLElement;
 	private treeContainer: HTMLElement;
+	private treeContent: HTMLElement;
 	private resizeHandle: HTMLElement;
 	private previewContainer: HTMLElement;
 	private previewHeader: HTMLElement;
@@ -136,19 +807,69 @@ class FileTreePreviewView extends ItemView {
 	private plugin: FileTreePreviewPlugin;
 	private collapsedFolders: Set<string>;
 	private isResizing: boolean = false;
+	private viewSettings: FolderViewSettings;
+	private lastCardLayout: CardLayout | null = null;
 	private previewsCollapsed: boolean = false;
 	private iconizeDataCache: string = "";
 	private dragGhost: HTMLElement | null = null;
+	private draggedCardPaths: string[] | null = null;
+	private draggedFolderPath: string | null = null;
 	private isRenderingTree: boolean = false;
+	private treeRenderQueued: boolean = false;
+	private folderNodes: Map<string, FolderNode> = new Map();
+	private folderCounts: Map<string, FolderFileCounts> = new Map();
+	private latestMtimes: Map<string, number> = new Map();
+	private countedFiles: Set<string> = new Set();
+	private recentFiles: Set<string> = new Set();
+	private pendingTreeUpdates: Set<string> = new Set();
+	private pendingPreviewRefresh: boolean = false;
+	private vaultEventTimer: number | null = null;
 	private pinnedFiles: Set<string> = new Set();
 	private modifyDebounceTimer: number | null = null;
-	private previewTextCache: Map<string, string> = new Map();
+	private metadataDebounceTimer: number | null = null;
+	private pendingMetadataUpdates: Set<string> = new Set();
+	private pendingTextLoads: Map<string, TFile> = new Map();
+	private activeTextLoads: number = 0;
+	private pendingThumbnailLoads: Map<string, TFile> = new Map();
+	private activeThumbnailLoads: number = 0;
+	private previewFiles: TFile[] = [];
+	private propertySortValues: Map<string, PropertySortValue | null> = new Map();
+	private filteredFiles: TFile[] = [];
+	private visibleFiles: TFile[] = [];
+	private previewRows: PreviewRow[] = [];
+	private galleryColumns: number = 1;
+	private renderedRows: Map<string, HTMLElement> = new Map();
+	private renderedCards: Map<string, HTMLElement> = new Map();
+	private cardRenderComponents: Map<string, Component> = new Map();
+	private mediaPlayback: { path: string; media: HTMLMediaElement; button: HTMLElement; visual: HTMLElement } | null = null;
+	private backlinkIndex: Map<string, string[]> | null = null;
+	private indexedLinkTargets: Map<string, string[]> = new Map();
+	private rowHeights: Map<string, number> = new Map();
+	private estimatedCardHeight: number = DEFAULT_CARD_HEIGHT;
+	private previewList: HTMLElement | null = null;
+	private previewListTopSpacer: HTMLElement;
+	private previewListCards: HTMLElement;
+	private previewListBottomSpacer: HTMLElement;
+	private previewWindowFrame: number | null = null;
+	private filterRefreshTimer: number | null = null;
+	private cardTabStopPath: string | null = null;
+	private previewFilter: string = "";
+	private lastPreviewFolder: TFolder | null = null;
+	private selectedFiles: Set<string> = new Set();
+	private selectionAnchor: string | null = null;
+	private previewFilterInput: HTMLInputElement | null = null;
+	private treeFilterInput: HTMLInputElement | null = null;
+	private treeFilter: string = "";
+	private treeFilterVisible: Set<string> | null = null;
+	private treeFilterExpanded: Set<string> = new Set();
+	private treeFilterToggles: Map<string, boolean> = new Map();
 	private isTouchDevice: boolean;
 
 	constructor(leaf: WorkspaceLeaf, plugin: FileTreePreviewPlugin) {
 		super(leaf);
 		this.plugin = plugin;
 		this.collapsedFolders = new Set(plugin.data.collapsedFolders);
+		this.viewSettings = this.getFolderViewSettings(null);
 		this.loadPinnedFiles();
 	}
 
@@ -204,6 +925,10 @@ class FileTreePreviewView extends ItemView {
 			this.treeContainer.setCssProps({ width: `${this.plugin.data.treeWidth}px` });
 		}
 
+		// Folder filter sits above the tree content so re-rendering the tree keeps the input
+		this.setupTreeFilter();
+		this.treeContent = this.treeContainer.createDiv({ cls: "ftpreview-tree-content", attr: { role: "tree" } });
+
 		// Resize handle
 		this.resizeHandle = this.mainLayout.createDiv({ cls: "ftpreview-resize-handle" });
 		if (!this.isTouchDevice) {
@@ -225,6 +950,12 @@ class FileTreePreviewView extends ItemView {
 		// Setup external file drop handling for preview panel
 		this.setupExternalFileDropHandling();
 
+		// Setup arrow key navigation for the tree and preview cards
+		this.setupKeyboardNavigation();
+
+		// Only cards near the visible area are rendered, so update them as the panel scrolls or resizes
+		this.setupPreviewWindowing();
+
 		// Initialize from currently active file
 		const activeFile = this.app.workspace.getActiveFile();
 		if (activeFile && activeFile.parent) {
@@ -232,6 +963,7 @@ class FileTreePreviewView extends ItemView {
 			this.selectedFolder = activeFile.parent;
 		}
 
+		this.countFolderFiles();
 		await this.renderFileTree();
 		await this.renderPreview();
 
@@ -243,27 +975,55 @@ class FileTreePreviewView extends ItemView {
 			return () => window.clearTimeout(timeoutId);
 		});
 
-		// Listen for file changes
+		// Listen for file changes - the tree is only patched where a folder changed
 		this.registerEvent(
-			this.app.vault.on("create", () => {
-				this.renderFileTree().catch(console.error);
+			this.app.vault.on("create", (file) => {
+				if (file instanceof TFile) {
+					this.addFileToCounts(file);
+					this.updateFolderSortKeys(file.path);
+				}
+				if (file instanceof TFolder) {
+					this.queueTreeUpdate(this.getParentPath(file.path));
+				} else if (file instanceof TFile && this.isInPreviewScope(file)) {
+					this.queuePreviewRefresh();
+				}
 			})
 		);
 		this.registerEvent(
-			this.app.vault.on("delete", () => {
-				this.renderFileTree().catch(console.error);
+			this.app.vault.on("delete", (file) => {
+				this.removeFromCounts(file.path);
+				this.updateFolderSortKeys(file.path);
+				// Links from and to the removed path are dropped without a resolve event, so index them again when next needed
+				this.backlinkIndex = null;
+				if (file instanceof TFolder) {
+					this.queueTreeUpdate(this.getParentPath(file.path));
+				} else if (file instanceof TFile && this.previewFiles.includes(file)) {
+					this.queuePreviewRefresh();
+				}
 			})
 		);
 		this.registerEvent(
-			this.app.vault.on("rename", () => {
-				this.renderFileTree().catch(console.error);
-				this.renderPreview().catch(console.error);
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.renameInCounts(oldPath, file.path);
+				this.updateFolderSortKeys(oldPath);
+				this.updateFolderSortKeys(file.path);
+				this.backlinkIndex = null;
+				if (file instanceof TFolder) {
+					this.renameCollapsedFolders(oldPath, file.path);
+					this.queueTreeUpdate(this.getParentPath(oldPath));
+					this.queueTreeUpdate(this.getParentPath(file.path));
+				}
+				this.queuePreviewRefresh();
 			})
 		);
 		this.registerEvent(
 			this.app.vault.on("modify", (file) => {
-				// Only update preview if the modified file is in the currently selected folder
-				if (file instanceof TFile && file.parent === this.selectedFolder) {
+				if (file instanceof TFile) {
+					this.markFileRecent(file);
+					this.updateFolderSortKeys(file.path);
+				}
+				// Only update preview if the modified file is shown in the preview panel
+				if (file instanceof TFile && this.isInPreviewScope(file)) {
 					// Debounce: clear existing timer and set a new one
 					if (this.modifyDebounceTimer !== null) {
 						window.clearTimeout(this.modifyDebounceTimer);
@@ -272,11 +1032,14 @@ class FileTreePreviewView extends ItemView {
 						// Check if preview content actually changed before re-rendering
 						try {
 							const content = await this.app.vault.read(file);
-							const newPreviewText = this.extractPreviewText(content);
-							const cachedPreviewText = this.previewTextCache.get(file.path);
+							const newPreviewText = this.extractPreviewText(content, file);
+							const cachedPreviewText = this.plugin.previewCache.peek(file.path);
 
-							// Only re-render if preview text changed
-							if (newPreviewText !== cachedPreviewText) {
+							// Store the new text so the cache stays fresh for the new mtime
+							this.plugin.previewCache.set(file, this.getPreviewSettingsKey(), newPreviewText, countWords(splitFrontmatter(content).body));
+
+							// Only re-render if preview text changed, or the card footer shows details that changed with it
+							if (newPreviewText !== cachedPreviewText || this.hasCardFooter()) {
 								// Try to update just this one card
 								const singleCardSuccess = await this.updateSinglePreviewCard(file);
 
@@ -291,8 +1054,39 @@ class FileTreePreviewView extends ItemView {
 							await this.renderPreview();
 						}
 						this.modifyDebounceTimer = null;
-					}, 1500); // 1.5 second delay after last keystroke
+					}, CARD_UPDATE_DEBOUNCE_MS);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				// Tags, properties and tasks on cards come from the metadata cache, which updates after the file itself
+				if (!this.previewFiles.includes(file)) return;
+				// A new sort property value moves the card, so sort the list again
+				if (this.viewSettings.sortOrder === "property" && this.hasPropertySortValueChanged(file)) {
+					this.queuePreviewRefresh();
+					return;
 				}
+				const isMetadataFiltered = this.getMetadataFilter() || this.viewSettings.openTasksOnly;
+				if (isMetadataFiltered && this.filteredFiles.includes(file) !== this.matchesPreviewFilter(file)) {
+					this.updateVisibleFiles();
+				} else if (this.renderedCards.has(file.path) && this.isCardUsingMetadata()) {
+					this.queueMetadataCardUpdate(file);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("resolve", (file) => {
+				// One file's links were resolved again - update its entries in the backlink index and refresh the badges they touch
+				const changedPaths = this.updateBacklinkIndex(file);
+				if (!this.plugin.data.showLinkBadges || this.renderedCards.size === 0) return;
+				[file.path, ...changedPaths].forEach(path => {
+					const badges = this.renderedCards.get(path)?.querySelector<HTMLElement>(".ftpreview-link-badges");
+					const linkedFile = this.app.vault.getAbstractFileByPath(path);
+					if (badges && linkedFile instanceof TFile) {
+						this.fillLinkBadges(badges, linkedFile);
+					}
+				});
 			})
 		);
 		this.registerEvent(
@@ -300,17 +1094,19 @@ class FileTreePreviewView extends ItemView {
 				if (file && file.parent) {
 					const previousFolder = this.selectedFolder;
 					this.activeFile = file;
-					this.selectedFolder = file.parent;
+
+					// Keep the selected folder when the file is already listed via include-subfolders mode
+					if (!this.isInPreviewScope(file)) {
+						this.selectedFolder = file.parent;
+					}
 
 					// If we're staying in the same folder, just update highlights
 					if (previousFolder === this.selectedFolder) {
 						this.updateActiveHighlight();
 					} else {
-						// Different folder, need to re-render
-						Promise.all([
-							this.renderFileTree(),
-							this.renderPreview()
-						]).catch(console.error);
+						// Different folder, need to re-render the preview
+						this.updateSelectedFolderHighlight();
+						this.renderPreview().catch(console.error);
 					}
 				}
 			})
@@ -326,6 +1122,29 @@ class FileTreePreviewView extends ItemView {
 			window.clearTimeout(this.modifyDebounceTimer);
 			this.modifyDebounceTimer = null;
 		}
+		if (this.metadataDebounceTimer !== null) {
+			window.clearTimeout(this.metadataDebounceTimer);
+			this.metadataDebounceTimer = null;
+		}
+		this.pendingMetadataUpdates.clear();
+		if (this.filterRefreshTimer !== null) {
+			window.clearTimeout(this.filterRefreshTimer);
+			this.filterRefreshTimer = null;
+		}
+		if (this.previewWindowFrame !== null) {
+			window.cancelAnimationFrame(this.previewWindowFrame);
+			this.previewWindowFrame = null;
+		}
+		if (this.vaultEventTimer !== null) {
+			window.clearTimeout(this.vaultEventTimer);
+			this.vaultEventTimer = null;
+		}
+		this.pendingTextLoads.clear();
+		this.pendingThumbnailLoads.clear();
+		this.stopMediaPlayback();
+		if (this.lastPreviewFolder) {
+			this.markFolderVisited(this.lastPreviewFolder);
+		}
 	}
 
 	private async waitForIconizePlugin() {
@@ -403,10 +1222,10 @@ class FileTreePreviewView extends ItemView {
 
 	updateActiveHighlight() {
 		// Update highlight classes without re-rendering
+		// Match by path, since include-subfolders mode can list files with the same name
 		const allCards = this.previewContent.querySelectorAll('.ftpreview-preview-item');
 		allCards.forEach((card) => {
-			const filename = card.querySelector('.ftpreview-preview-filename strong')?.textContent;
-			if (filename === this.activeFile?.basename) {
+			if (card.getAttribute('data-file-path') === this.activeFile?.path) {
 				card.addClass('ftpreview-preview-item-active');
 			} else {
 				card.removeClass('ftpreview-preview-item-active');
@@ -440,6 +1259,42 @@ class FileTreePreviewView extends ItemView {
 		return null;
 	}
 
+	private isInPreviewScope(file: TFile): boolean {
+		// Check if a file is listed in the preview panel for the selected folder
+		if (!this.selectedFolder || !file.parent) {
+			return false;
+		}
+		if (this.plugin.data.includeSubfolders) {
+			return this.isDescendantOf(file.parent, this.selectedFolder);
+		}
+		return file.parent === this.selectedFolder;
+	}
+
+	private collectFiles(folder: TFolder, includeSubfolders: boolean): TFile[] {
+		// Collect files in a folder, optionally recursing into all descendant folders
+		const files: TFile[] = [];
+		for (const child of folder.children) {
+			if (child instanceof TFile) {
+				files.push(child);
+			} else if (includeSubfolders && child instanceof TFolder) {
+				files.push(...this.collectFiles(child, true));
+			}
+		}
+		return files;
+	}
+
+	// Helper to get a file's folder path relative to the selected folder
+	// Returns an empty string for files directly inside the selected folder
+	private getRelativeFolderPath(file: TFile): string {
+		if (!this.selectedFolder || !file.parent || file.parent === this.selectedFolder) {
+			return "";
+		}
+		if (this.selectedFolder.isRoot()) {
+			return file.parent.path;
+		}
+		return file.parent.path.substring(this.selectedFolder.path.length + 1);
+	}
+
 	private isDescendantOf(possibleDescendant: TFolder, possibleAncestor: TFolder): boolean {
 		// Check if possibleDescendant is a child or descendant of possibleAncestor
 		let current: TFolder | null = possibleDescendant;
@@ -681,57 +1536,778 @@ class FileTreePreviewView extends ItemView {
 		this.renderPreview().catch(console.error);
 	}
 
-	async renderFileTree() {
-		// Prevent concurrent renders that can cause duplicates
-		if (this.isRenderingTree) {
-			return;
-		}
-
-		this.isRenderingTree = true;
-		try {
-			this.treeContainer.empty();
-			const root = this.app.vault.getRoot();
+	private setupKeyboardNavigation() {
+		// Delegated handlers on the column containers, so re-renders don't need to re-bind them
+		this.treeContent.addEventListener("keydown", (e) => this.handleTreeKeydown(e));
+		this.previewContent.addEventListener("keydown", (e) => this.handleCardKeydown(e));
 
-			if (this.plugin.data.showRootFolder) {
-				// Render the vault root folder
-				await this.renderRootFolder(root, this.treeContainer);
-			} else {
-				// Render folders directly (old behavior)
-				await this.renderFolder(root, this.treeContainer, 0);
+		// Keep the roving tab stop on whichever item was focused last
+		this.treeContent.addEventListener("focusin", (e) => {
+			const header = (e.target as HTMLElement).closest<HTMLElement>(".ftpreview-folder-header");
+			if (header) {
+				this.setTabStop(this.treeContent, ".ftpreview-folder-header", header);
 			}
-		} finally {
-			this.isRenderingTree = false;
-		}
+		});
+		this.previewContent.addEventListener("focusin", (e) => {
+			const card = (e.target as HTMLElement).closest<HTMLElement>(".ftpreview-preview-item");
+			if (card) {
+				this.cardTabStopPath = card.getAttribute("data-file-path");
+				this.setTabStop(this.previewContent, ".ftpreview-preview-item", card);
+			}
+		});
 	}
 
-	private async renderRootFolder(root: TFolder, container: HTMLElement) {
-		// Create root folder element at level 0
-		const folderEl = container.createDiv({ cls: "ftpreview-folder-item ftpreview-root-folder" });
-		folderEl.setCssProps({ 'padding-left': '0px' });
+	private isContextMenuKey(e: KeyboardEvent): boolean {
+		return e.key === "ContextMenu" || (e.key === "F10" && e.shiftKey);
+	}
 
-		const isSelected = this.selectedFolder === root;
-		const folderHeader = folderEl.createDiv({
-			cls: "ftpreview-folder-header" + (isSelected ? " ftpreview-selected" : "")
-		});
+	private showMenuAtElement(menu: Menu, el: HTMLElement) {
+		const rect = el.getBoundingClientRect();
+		menu.showAtPosition({ x: rect.left, y: rect.bottom });
+	}
 
-		// Add caret (root always has children - it's the vault root)
-		const caret = folderHeader.createSpan({ cls: "ftpreview-folder-caret" });
-		setIcon(caret, "right-triangle");
-		// Root folder is open by default - no collapsed class
+	private getFocusedPath(container: HTMLElement, attribute: string): string | null {
+		// Get the path of the focused tree item or card, if focus is inside the container
+		const focused = document.activeElement;
+		if (!(focused instanceof HTMLElement) || !container.contains(focused)) {
+			return null;
+		}
+		return focused.closest(`[${attribute}]`)?.getAttribute(attribute) ?? null;
+	}
 
-		// Determine vault icon based on preference
-		const iconStyle = this.plugin.data.folderIconStyle;
-		const folderNameSpan = folderHeader.createSpan({ cls: "ftpreview-folder-name" });
+	private setTabStop(container: HTMLElement, selector: string, target: HTMLElement) {
+		container.querySelectorAll<HTMLElement>(selector).forEach((el) => {
+			el.setAttribute("tabindex", el === target ? "0" : "-1");
+		});
+	}
 
-		if (iconStyle === "none") {
-			folderNameSpan.setText(this.app.vault.getName());
-		} else if (iconStyle === "custom") {
-			// Use vault icon for root folder
-			try {
-				const iconFolderPlugin = (this.app as App & { plugins?: { plugins?: Record<string, IconizePlugin> } }).plugins?.plugins?.['obsidian-icon-folder'];
+	private getVisibleFolderHeaders(): HTMLElement[] {
+		// Folder headers that aren't inside a collapsed folder
+		return Array.from(this.treeContent.querySelectorAll<HTMLElement>(".ftpreview-folder-header"))
+			.filter(header => !header.closest(".ftpreview-folder-content.ftpreview-collapsed"));
+	}
 
-				if (iconFolderPlugin?.api?.getIconByName) {
-					const iconData = iconFolderPlugin.api.getIconByName("LiVault");
+	private findByPath(elements: HTMLElement[], attribute: string, path: string): HTMLElement | undefined {
+		return elements.find(el => el.getAttribute(attribute) === path);
+	}
+
+	private updateTreeTabStop(focusedPath: string | null) {
+		// Put the tab stop on the previously focused folder, else the selected folder, else the first one
+		const headers = this.getVisibleFolderHeaders();
+		const target = (focusedPath ? this.findByPath(headers, "data-folder-path", focusedPath) : undefined)
+			?? headers.find(header => header.hasClass("ftpreview-selected"))
+			?? headers[0];
+		if (!target) return;
+
+		this.setTabStop(this.treeContent, ".ftpreview-folder-header", target);
+		if (focusedPath) {
+			target.focus();
+		}
+	}
+
+	private updateCardTabStop(focusedPath: string | null) {
+		// Put the tab stop on the previously focused card, else the active file, else the first card
+		const target = (focusedPath ? this.visibleFiles.find(file => file.path === focusedPath) : undefined)
+			?? this.visibleFiles.find(file => file === this.activeFile)
+			?? this.visibleFiles[0];
+		this.cardTabStopPath = target ? target.path : null;
+		this.applyCardTabStop();
+
+		if (target && focusedPath) {
+			this.focusCardAt(this.visibleFiles.indexOf(target));
+		}
+	}
+
+	private applyCardTabStop() {
+		// Only rendered cards can hold the tab stop - fall back to the first rendered card
+		const tabStopCard = (this.cardTabStopPath ? this.renderedCards.get(this.cardTabStopPath) : undefined)
+			?? this.previewListCards?.querySelector<HTMLElement>(".ftpreview-preview-item");
+		if (tabStopCard) {
+			this.setTabStop(this.previewContent, ".ftpreview-preview-item", tabStopCard);
+		}
+	}
+
+	private focusTreeTabStop() {
+		const headers = this.getVisibleFolderHeaders();
+		const target = headers.find(header => header.getAttribute("tabindex") === "0") ?? headers[0];
+		target?.focus();
+	}
+
+	private focusCardTabStop() {
+		const index = this.visibleFiles.findIndex(file => file.path === this.cardTabStopPath);
+		this.focusCardAt(Math.max(index, 0));
+	}
+
+	private focusCardAt(index: number) {
+		// Scroll the card into the rendered window first, since it may not exist in the DOM yet
+		const file = this.visibleFiles[index];
+		if (!file) return;
+
+		this.scrollCardIntoView(file);
+		this.renderedCards.get(file.path)?.focus();
+	}
+
+	private handleTreeKeydown(e: KeyboardEvent) {
+		const header = (e.target as HTMLElement).closest<HTMLElement>(".ftpreview-folder-header");
+		if (!header) return;
+
+		const folderPath = header.getAttribute("data-folder-path");
+		const folder = folderPath ? this.app.vault.getAbstractFileByPath(folderPath) : null;
+		if (!(folder instanceof TFolder)) return;
+
+		const headers = this.getVisibleFolderHeaders();
+		const index = headers.indexOf(header);
+		const caret = header.querySelector<HTMLElement>(".ftpreview-folder-caret");
+		const isExpanded = caret !== null && !caret.hasClass("ftpreview-collapsed");
+
+		if (this.isContextMenuKey(e)) {
+			e.preventDefault();
+			const menu = new Menu();
+			this.buildFolderContextMenu(menu, folder);
+			this.showMenuAtElement(menu, header);
+			return;
+		}
+
+		switch (e.key) {
+			case "ArrowDown":
+				e.preventDefault();
+				headers[index + 1]?.focus();
+				break;
+			case "ArrowUp":
+				e.preventDefault();
+				headers[index - 1]?.focus();
+				break;
+			case "Home":
+				e.preventDefault();
+				headers[0]?.focus();
+				break;
+			case "End":
+				e.preventDefault();
+				headers[headers.length - 1]?.focus();
+				break;
+			case "ArrowRight":
+				e.preventDefault();
+				if (caret && !isExpanded) {
+					// Expand a collapsed folder
+					caret.click();
+				} else if (isExpanded) {
+					// Move to the first subfolder
+					headers[index + 1]?.focus();
+				}
+				break;
+			case "ArrowLeft":
+				e.preventDefault();
+				if (isExpanded && caret) {
+					// Collapse an expanded folder
+					caret.click();
+				} else if (folder.parent) {
+					// Move to the parent folder
+					this.findByPath(headers, "data-folder-path", folder.parent.path)?.focus();
+				}
+				break;
+			case "Enter":
+			case " ":
+				// Select the folder, same as clicking it
+				e.preventDefault();
+				header.click();
+				break;
+			case "Tab":
+				// Jump from the tree to the preview cards
+				if (!e.shiftKey && this.visibleFiles.length > 0) {
+					e.preventDefault();
+					this.focusCardTabStop();
+				}
+				break;
+		}
+	}
+
+	private handleCardKeydown(e: KeyboardEvent) {
+		const card = (e.target as HTMLElement).closest<HTMLElement>(".ftpreview-preview-item");
+		if (!card) return;
+
+		const filePath = card.getAttribute("data-file-path");
+		const file = filePath ? this.app.vault.getAbstractFileByPath(filePath) : null;
+		if (!(file instanceof TFile)) return;
+
+		const index = this.visibleFiles.indexOf(file);
+		const isGallery = this.viewSettings.cardLayout === "gallery";
+
+		if (this.isContextMenuKey(e)) {
+			e.preventDefault();
+			const menu = new Menu();
+			this.buildCardContextMenu(menu, file);
+			this.showMenuAtElement(menu, card);
+			return;
+		}
+
+		switch (e.key) {
+			case "ArrowDown":
+				// Gallery tiles move a line at a time vertically and one tile at a time sideways
+				e.preventDefault();
+				this.focusCardAt(Math.min(this.visibleFiles.length - 1, index + (isGallery ? this.galleryColumns : 1)));
+				break;
+			case "ArrowUp":
+				e.preventDefault();
+				this.focusCardAt(Math.max(0, index - (isGallery ? this.galleryColumns : 1)));
+				break;
+			case "ArrowRight":
+				if (isGallery) {
+					e.preventDefault();
+					this.focusCardAt(index + 1);
+				}
+				break;
+			case "ArrowLeft":
+				if (isGallery) {
+					e.preventDefault();
+					this.focusCardAt(index - 1);
+				}
+				break;
+			case "Home":
+				e.preventDefault();
+				this.focusCardAt(0);
+				break;
+			case "End":
+				e.preventDefault();
+				this.focusCardAt(this.visibleFiles.length - 1);
+				break;
+			case "Enter":
+				// Open the file, same as clicking the card
+				e.preventDefault();
+				card.click();
+				break;
+			case " ":
+				// Toggle the card in the multi-file selection
+				e.preventDefault();
+				this.toggleFileSelection(file);
+				break;
+			case "Escape":
+				if (this.selectedFiles.size > 0) {
+					e.preventDefault();
+					this.clearFileSelection();
+				}
+				break;
+			case "Tab":
+				// Jump from the preview cards back to the tree
+				if (e.shiftKey) {
+					e.preventDefault();
+					this.focusTreeTabStop();
+				}
+				break;
+		}
+	}
+
+	async renderFileTree() {
+		// Prevent concurrent renders that can cause duplicates - run once more afterwards instead
+		if (this.isRenderingTree) {
+			this.treeRenderQueued = true;
+			return;
+		}
+
+		this.isRenderingTree = true;
+		// A full render picks up any pending incremental updates
+		this.pendingTreeUpdates.clear();
+		// Remember the focused folder and scroll position so they survive the re-render
+		const focusedFolderPath = this.getFocusedPath(this.treeContent, "data-folder-path");
+		const scrollTop = this.treeContainer.scrollTop;
+		try {
+			this.treeContent.empty();
+			this.folderNodes.clear();
+			const root = this.app.vault.getRoot();
+
+			const hasMatches = this.updateTreeFilterMatches(root);
+			if (!hasMatches) {
+				this.treeContent.createDiv({
+					text: "No folders match the filter",
+					cls: "ftpreview-tree-filter-empty"
+				});
+				return;
+			}
+
+			if (this.plugin.data.showRootFolder) {
+				// Render the vault root folder
+				await this.renderRootFolder(root, this.treeContent);
+			} else {
+				// Render folders directly (old behavior)
+				await this.renderFolder(root, this.treeContent, 0);
+			}
+
+			this.updateTreeTabStop(focusedFolderPath);
+			this.treeContainer.scrollTop = scrollTop;
+		} finally {
+			this.isRenderingTree = false;
+		}
+
+		if (this.treeRenderQueued) {
+			this.treeRenderQueued = false;
+			await this.renderFileTree();
+		}
+	}
+
+	private isShowingFolderBadges(): boolean {
+		return this.plugin.data.folderCountBadge !== "none" || this.plugin.data.showNewFilesBadge;
+	}
+
+	private isCountingFolderFiles(): boolean {
+		// Counts feed the badges and the file count folder order
+		return this.isShowingFolderBadges() || this.plugin.data.folderSortOrder === "file-count";
+	}
+
+	countFolderFiles() {
+		// Full count, done on open and when badges or the file count order are turned on - vault events adjust the counts from there
+		this.folderCounts.clear();
+		this.countedFiles.clear();
+		this.recentFiles.clear();
+		if (!this.isCountingFolderFiles()) return;
+
+		this.app.vault.getFiles().forEach(file => this.addFileToCounts(file, false));
+	}
+
+	private getFolderCounts(path: string): FolderFileCounts {
+		let counts = this.folderCounts.get(path);
+		if (!counts) {
+			counts = { direct: 0, recursive: 0, recent: 0 };
+			this.folderCounts.set(path, counts);
+		}
+		return counts;
+	}
+
+	private isNewSinceVisit(file: TFile): boolean {
+		// Folders never selected have nothing to compare against, so nothing in them counts as new
+		// Nor does anything in the open folder, which is stamped again when it's left
+		const parentPath = this.getParentPath(file.path);
+		if (this.selectedFolder?.path === parentPath) return false;
+		const lastVisited = this.plugin.data.folderLastVisited[parentPath];
+		return lastVisited !== undefined && Math.max(file.stat.ctime, file.stat.mtime) > lastVisited;
+	}
+
+	private addFileToCounts(file: TFile, updateBadges = true) {
+		if (!this.isCountingFolderFiles() || this.countedFiles.has(file.path)) return;
+		this.countedFiles.add(file.path);
+
+		const parentPath = this.getParentPath(file.path);
+		const parentCounts = this.getFolderCounts(parentPath);
+		parentCounts.direct++;
+		if (this.isNewSinceVisit(file)) {
+			this.recentFiles.add(file.path);
+			parentCounts.recent++;
+		}
+
+		// Every ancestor up to the root gains a file in its recursive count
+		let path = parentPath;
+		for (;;) {
+			this.getFolderCounts(path).recursive++;
+			if (updateBadges) {
+				this.updateFolderBadges(path);
+			}
+			if (path === "/") break;
+			path = this.getParentPath(path);
+		}
+	}
+
+	private removeFileFromCounts(filePath: string) {
+		if (!this.countedFiles.delete(filePath)) return;
+
+		const parentPath = this.getParentPath(filePath);
+		const parentCounts = this.getFolderCounts(parentPath);
+		parentCounts.direct--;
+		if (this.recentFiles.delete(filePath)) {
+			parentCounts.recent--;
+		}
+
+		let path = parentPath;
+		for (;;) {
+			this.getFolderCounts(path).recursive--;
+			this.updateFolderBadges(path);
+			if (path === "/") break;
+			path = this.getParentPath(path);
+		}
+	}
+
+	private removeFromCounts(path: string) {
+		if (this.countedFiles.has(path)) {
+			this.removeFileFromCounts(path);
+			return;
+		}
+
+		// A deleted folder takes every counted file inside it along
+		Array.from(this.countedFiles)
+			.filter(filePath => isPathWithin(filePath, path))
+			.forEach(filePath => this.removeFileFromCounts(filePath));
+		Array.from(this.folderCounts.keys())
+			.filter(folderPath => folderPath !== "/" && isPathWithin(folderPath, path))
+			.forEach(folderPath => this.folderCounts.delete(folderPath));
+	}
+
+	private renameInCounts(oldPath: string, newPath: string) {
+		// Move the counted files of a renamed file or folder to where they are now
+		const movedPaths = Array.from(this.countedFiles).filter(filePath => isPathWithin(filePath, oldPath));
+		this.removeFromCounts(oldPath);
+		movedPaths.forEach(filePath => {
+			const file = this.app.vault.getAbstractFileByPath(renamePath(filePath, oldPath, newPath));
+			if (file instanceof TFile) {
+				this.addFileToCounts(file);
+			}
+		});
+	}
+
+	private markFileRecent(file: TFile) {
+		// An edited file counts as new in its folder until the folder is visited again
+		if (!this.countedFiles.has(file.path) || this.recentFiles.has(file.path) || !this.isNewSinceVisit(file)) return;
+
+		const parentPath = this.getParentPath(file.path);
+		this.recentFiles.add(file.path);
+		this.getFolderCounts(parentPath).recent++;
+		this.updateFolderBadges(parentPath);
+	}
+
+	private markFolderVisited(folder: TFolder) {
+		// Everything in the folder has now been seen - only recorded while new file badges are shown
+		if (!this.plugin.data.showNewFilesBadge) return;
+		this.plugin.data.folderLastVisited[folder.path] = Date.now();
+		this.plugin.savePluginData().catch(console.error);
+		this.clearRecentFiles(folder);
+	}
+
+	private clearRecentFiles(folder: TFolder) {
+		// Drop a folder's new file count, e.g. while it's open
+		const counts = this.folderCounts.get(folder.path);
+		if (counts && counts.recent > 0) {
+			Array.from(this.recentFiles)
+				.filter(filePath => this.getParentPath(filePath) === folder.path)
+				.forEach(filePath => this.recentFiles.delete(filePath));
+			counts.recent = 0;
+			this.updateFolderBadges(folder.path);
+		}
+	}
+
+	private renderFolderBadges(folderHeader: HTMLElement, path: string) {
+		if (!this.isShowingFolderBadges()) return;
+
+		const counts = this.folderCounts.get(path) ?? { direct: 0, recursive: 0, recent: 0 };
+		const badges = folderHeader.createSpan({ cls: "ftpreview-folder-badges" });
+
+		if (this.plugin.data.showNewFilesBadge && counts.recent > 0) {
+			badges.createSpan({
+				cls: "ftpreview-folder-badge ftpreview-folder-badge-new",
+				text: String(counts.recent),
+				attr: { "aria-label": `${counts.recent} new since last visit` }
+			});
+		}
+
+		const countBadge = this.plugin.data.folderCountBadge;
+		if (countBadge !== "none" && counts.recursive > 0) {
+			const text = countBadge === "direct" ? String(counts.direct)
+				: countBadge === "recursive" ? String(counts.recursive)
+				: `${counts.direct} / ${counts.recursive}`;
+			badges.createSpan({
+				cls: "ftpreview-folder-badge",
+				text,
+				attr: { "aria-label": `${counts.direct} files, ${counts.recursive} including subfolders` }
+			});
+		}
+	}
+
+	private updateFolderBadges(path: string) {
+		// Re-render just this folder's badges
+		const header = this.folderNodes.get(path)?.header;
+		if (!header) return;
+		header.querySelector(".ftpreview-folder-badges")?.remove();
+		this.renderFolderBadges(header, path);
+	}
+
+	// Helper to get the parent folder path for a vault path
+	// Returns "/" (the root folder's path) for top-level items
+	private getParentPath(path: string): string {
+		const slashIndex = path.lastIndexOf("/");
+		return slashIndex === -1 ? "/" : path.substring(0, slashIndex);
+	}
+
+	private getFolderByPath(path: string): TFolder | null {
+		const folder = path === "/" ? this.app.vault.getRoot() : this.app.vault.getAbstractFileByPath(path);
+		return folder instanceof TFolder ? folder : null;
+	}
+
+	private renameCollapsedFolders(oldPath: string, newPath: string) {
+		// Keep the collapsed state of a renamed or moved folder and its subfolders
+		let changed = false;
+		Array.from(this.collapsedFolders).forEach((path) => {
+			if (path === oldPath || path.startsWith(oldPath + "/")) {
+				this.collapsedFolders.delete(path);
+				this.collapsedFolders.add(newPath + path.substring(oldPath.length));
+				changed = true;
+			}
+		});
+		if (changed) {
+			this.plugin.data.collapsedFolders = Array.from(this.collapsedFolders);
+			this.plugin.savePluginData().catch(console.error);
+		}
+	}
+
+	private queueTreeUpdate(folderPath: string) {
+		this.pendingTreeUpdates.add(folderPath);
+		this.scheduleVaultEventFlush();
+	}
+
+	private queuePreviewRefresh() {
+		this.pendingPreviewRefresh = true;
+		this.scheduleVaultEventFlush();
+	}
+
+	private scheduleVaultEventFlush() {
+		// Coalesce bursts of vault events into one update
+		if (this.vaultEventTimer !== null) {
+			window.clearTimeout(this.vaultEventTimer);
+		}
+		this.vaultEventTimer = window.setTimeout(() => {
+			this.vaultEventTimer = null;
+			this.flushVaultEvents().catch(console.error);
+		}, VAULT_EVENT_DEBOUNCE_MS);
+	}
+
+	private async flushVaultEvents() {
+		const folderPaths = Array.from(this.pendingTreeUpdates);
+		this.pendingTreeUpdates.clear();
+
+		if (folderPaths.length > 0) {
+			if (this.treeFilterVisible || this.isRenderingTree) {
+				// Filter matches depend on the whole tree, so filtered trees are rendered in full
+				await this.renderFileTree();
+			} else {
+				// Patch parents before children
+				const focusedFolderPath = this.getFocusedPath(this.treeContent, "data-folder-path");
+				folderPaths.sort((a, b) => a.length - b.length);
+				for (const path of folderPaths) {
+					const folder = this.getFolderByPath(path);
+					if (folder) {
+						await this.patchFolderNode(folder);
+					}
+				}
+				this.updateTreeTabStop(focusedFolderPath);
+			}
+		}
+
+		if (this.pendingPreviewRefresh) {
+			this.pendingPreviewRefresh = false;
+			await this.renderPreview();
+		}
+	}
+
+	private async patchFolderNode(folder: TFolder) {
+		// Bring one folder's subfolder list in line with the vault, leaving unchanged subfolders alone
+		let container: HTMLElement;
+		let level: number;
+		const node = this.folderNodes.get(folder.path);
+
+		if (folder.isRoot() && !this.plugin.data.showRootFolder) {
+			container = this.treeContent;
+			level = 0;
+		} else if (node) {
+			// A folder that gained its first or lost its last subfolder needs a new caret and icon
+			const hasCaret = node.header.querySelector(".ftpreview-folder-caret") !== null;
+			const hasSubfolders = folder.children.some(child => child instanceof TFolder);
+			if (!folder.isRoot() && hasCaret !== hasSubfolders) {
+				const parentEl = node.el.parentElement;
+				const nextSibling = node.content.nextSibling;
+				this.removeFolderNode(folder.path);
+				if (parentEl) {
+					await this.renderFolderNode(folder, parentEl, node.level, nextSibling);
+				}
+				return;
+			}
+			container = node.content;
+			level = node.level + 1;
+		} else {
+			// Folder isn't rendered (e.g. inside a folder that was just added), nothing to patch
+			return;
+		}
+
+		const subfolders = this.getSortedSubfolders(folder);
+		const subfolderPaths = new Set(subfolders.map(subfolder => subfolder.path));
+
+		// Remove subfolders that were deleted or moved away
+		this.folderNodes.forEach((childNode, path) => {
+			if (childNode.parentPath === folder.path && !subfolderPaths.has(path)) {
+				this.removeFolderNode(path);
+			}
+		});
+
+		// Add new subfolders and keep the rest in sorted order
+		let cursor: Node | null = container.firstChild;
+		for (const subfolder of subfolders) {
+			const existing = this.folderNodes.get(subfolder.path);
+			if (existing) {
+				if (existing.el !== cursor) {
+					container.insertBefore(existing.el, cursor);
+					container.insertBefore(existing.content, cursor);
+				}
+				cursor = existing.content.nextSibling;
+			} else {
+				await this.renderFolderNode(subfolder, container, level, cursor);
+			}
+		}
+	}
+
+	private removeFolderNode(path: string) {
+		// Remove a folder's DOM and forget it and all of its descendants
+		const node = this.folderNodes.get(path);
+		node?.el.remove();
+		node?.content.remove();
+		Array.from(this.folderNodes.keys()).forEach((nodePath) => {
+			if (nodePath === path || nodePath.startsWith(path + "/")) {
+				this.folderNodes.delete(nodePath);
+			}
+		});
+	}
+
+	private updateSelectedFolderHighlight() {
+		// Move the selected folder highlight without re-rendering the tree
+		this.folderNodes.forEach((node, path) => {
+			node.header.toggleClass("ftpreview-selected", this.selectedFolder?.path === path);
+		});
+	}
+
+	private setupTreeFilter() {
+		const filterContainer = this.treeContainer.createDiv({ cls: "ftpreview-tree-filter" });
+		const filterInput = filterContainer.createEl("input", {
+			type: "search",
+			cls: "ftpreview-tree-filter-input",
+			attr: { placeholder: "Filter folders", "aria-label": "Filter folders" }
+		});
+
+		this.treeFilterInput = filterInput;
+
+		filterInput.addEventListener("input", () => {
+			this.treeFilter = filterInput.value;
+			// Manual expand/collapse while filtering only lasts for the current query
+			this.treeFilterToggles.clear();
+			this.renderFileTree().catch(console.error);
+		});
+
+		// Clear the filter on Escape, move to the tree on arrow down
+		filterInput.addEventListener("keydown", (e) => {
+			if (e.key === "Escape" && filterInput.value) {
+				e.preventDefault();
+				this.clearTreeFilter();
+				this.renderFileTree().catch(console.error);
+			} else if (e.key === "ArrowDown") {
+				e.preventDefault();
+				this.focusTreeTabStop();
+			}
+		});
+	}
+
+	private clearTreeFilter() {
+		// Back to the saved expand/collapse state - the next tree render shows every folder
+		if (this.treeFilterInput) {
+			this.treeFilterInput.value = "";
+		}
+		this.treeFilter = "";
+		this.treeFilterVisible = null;
+		this.treeFilterToggles.clear();
+	}
+
+	private updateTreeFilterMatches(root: TFolder): boolean {
+		// Work out which folders the tree filter shows and which ancestors to expand
+		// Returns false if the filter is active and nothing matches
+		const query = this.treeFilter.trim().toLowerCase();
+		if (!query) {
+			this.treeFilterVisible = null;
+			this.treeFilterExpanded = new Set();
+			return true;
+		}
+
+		const visible = new Set<string>();
+		const expanded = new Set<string>();
+
+		const visit = (folder: TFolder): boolean => {
+			let hasMatchingDescendant = false;
+			for (const child of folder.children) {
+				if (child instanceof TFolder && visit(child)) {
+					hasMatchingDescendant = true;
+				}
+			}
+
+			const isMatch = !folder.isRoot() && folder.name.toLowerCase().includes(query);
+			if (hasMatchingDescendant) {
+				expanded.add(folder.path);
+			}
+			if (isMatch || hasMatchingDescendant) {
+				visible.add(folder.path);
+			}
+			return isMatch || hasMatchingDescendant;
+		};
+
+		const hasMatches = visit(root);
+		this.treeFilterVisible = visible;
+		this.treeFilterExpanded = expanded;
+		return hasMatches;
+	}
+
+	private matchesTreeFilter(folder: TFolder): boolean {
+		const query = this.treeFilter.trim().toLowerCase();
+		return query.length > 0 && folder.name.toLowerCase().includes(query);
+	}
+
+	private isFolderCollapsed(path: string): boolean {
+		// While filtering, ancestors of matches are expanded without touching the saved state
+		if (this.treeFilterVisible) {
+			const toggled = this.treeFilterToggles.get(path);
+			if (toggled !== undefined) {
+				return toggled;
+			}
+			if (this.treeFilterExpanded.has(path)) {
+				return false;
+			}
+		}
+		return this.collapsedFolders.has(path);
+	}
+
+	private setFolderCollapsed(path: string, collapsed: boolean) {
+		// Changes made while filtering are temporary and dropped when the filter is cleared
+		if (this.treeFilterVisible) {
+			this.treeFilterToggles.set(path, collapsed);
+			return;
+		}
+
+		// Update collapsed state and save
+		if (collapsed) {
+			this.collapsedFolders.add(path);
+		} else {
+			this.collapsedFolders.delete(path);
+		}
+		this.plugin.data.collapsedFolders = Array.from(this.collapsedFolders);
+		this.plugin.savePluginData().catch(console.error);
+	}
+
+	private async renderRootFolder(root: TFolder, container: HTMLElement) {
+		// Create root folder element at level 0
+		const folderEl = container.createDiv({ cls: "ftpreview-folder-item ftpreview-root-folder" });
+		folderEl.setCssProps({ 'padding-left': '0px' });
+
+		const isSelected = this.selectedFolder === root;
+		const folderHeader = folderEl.createDiv({
+			cls: "ftpreview-folder-header" + (isSelected ? " ftpreview-selected" : ""),
+			attr: { "data-folder-path": root.path, tabindex: "-1", role: "treeitem", "aria-expanded": "true" }
+		});
+
+		// Add caret (root always has children - it's the vault root)
+		const caret = folderHeader.createSpan({ cls: "ftpreview-folder-caret" });
+		setIcon(caret, "right-triangle");
+		// Root folder is open by default - no collapsed class
+
+		// Determine vault icon based on preference
+		const iconStyle = this.plugin.data.folderIconStyle;
+		const folderNameSpan = folderHeader.createSpan({ cls: "ftpreview-folder-name" });
+
+		if (iconStyle === "none") {
+			folderNameSpan.setText(this.app.vault.getName());
+		} else if (iconStyle === "custom") {
+			// Use vault icon for root folder
+			try {
+				const iconFolderPlugin = (this.app as App & { plugins?: { plugins?: Record<string, IconizePlugin> } }).plugins?.plugins?.['obsidian-icon-folder'];
+
+				if (iconFolderPlugin?.api?.getIconByName) {
+					const iconData = iconFolderPlugin.api.getIconByName("LiVault");
 
 					if (iconData && iconData.svgElement) {
 						const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
@@ -741,809 +2317,2566 @@ class FileTreePreviewView extends ItemView {
 						if (svgEl && !svgEl.querySelector('parsererror')) {
 							iconContainer.appendChild(svgEl);
 						}
-						folderNameSpan.appendText(" " + this.app.vault.getName());
-					} else {
-						// Fallback to folder icon if vault icon not found
-						const fallbackIcon = iconFolderPlugin.api.getIconByName("LiFolders");
-						if (fallbackIcon && fallbackIcon.svgElement) {
-							const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
-							const parser = new DOMParser();
-							const doc = parser.parseFromString(fallbackIcon.svgElement, 'image/svg+xml');
-							const svgEl = doc.documentElement;
-							if (svgEl && !svgEl.querySelector('parsererror')) {
-								iconContainer.appendChild(svgEl);
-							}
-							folderNameSpan.appendText(" " + this.app.vault.getName());
-						} else {
-							folderNameSpan.setText(this.app.vault.getName());
+						folderNameSpan.appendText(" " + this.app.vault.getName());
+					} else {
+						// Fallback to folder icon if vault icon not found
+						const fallbackIcon = iconFolderPlugin.api.getIconByName("LiFolders");
+						if (fallbackIcon && fallbackIcon.svgElement) {
+							const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
+							const parser = new DOMParser();
+							const doc = parser.parseFromString(fallbackIcon.svgElement, 'image/svg+xml');
+							const svgEl = doc.documentElement;
+							if (svgEl && !svgEl.querySelector('parsererror')) {
+								iconContainer.appendChild(svgEl);
+							}
+							folderNameSpan.appendText(" " + this.app.vault.getName());
+						} else {
+							folderNameSpan.setText(this.app.vault.getName());
+						}
+					}
+				} else {
+					folderNameSpan.setText(this.app.vault.getName());
+				}
+			} catch (error) {
+				console.error("Error rendering vault icon:", error);
+				folderNameSpan.setText(this.app.vault.getName());
+			}
+		} else if (iconStyle === "folder") {
+			folderNameSpan.setText("📁 " + this.app.vault.getName());
+		}
+
+		// Click handler to show root-level files
+		folderHeader.addEventListener("click", () => {
+			this.selectedFolder = root;
+			this.updateSelectedFolderHighlight();
+			this.renderPreview().catch(console.error);
+		});
+
+		// Caret click handler to toggle collapse
+		caret.addEventListener("click", (e) => {
+			e.stopPropagation();
+			const willBeCollapsed = !folderContent.hasClass("ftpreview-collapsed");
+			folderContent.toggleClass("ftpreview-collapsed", willBeCollapsed);
+			caret.toggleClass("ftpreview-collapsed", willBeCollapsed);
+			folderHeader.setAttribute("aria-expanded", String(!willBeCollapsed));
+			this.setFolderCollapsed(root.path, willBeCollapsed);
+		});
+
+		// Drag and drop handlers - make root folder a drop zone
+		folderHeader.addEventListener("dragover", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			if (e.dataTransfer) {
+				const isExternalFiles = e.dataTransfer.types.includes('Files');
+				e.dataTransfer.dropEffect = isExternalFiles ? "copy" : "move";
+			}
+			folderHeader.addClass("ftpreview-drop-target");
+		});
+
+		folderHeader.addEventListener("dragleave", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			folderHeader.removeClass("ftpreview-drop-target");
+		});
+
+		folderHeader.addEventListener("drop", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			folderHeader.removeClass("ftpreview-drop-target");
+
+			const handleDrop = async () => {
+				// Check if this is an external file drop (from OS)
+				const externalFiles = e.dataTransfer?.files;
+				if (externalFiles && externalFiles.length > 0) {
+					let importedCount = 0;
+					let lastImportedFile: TFile | null = null;
+
+					for (let i = 0; i < externalFiles.length; i++) {
+						const file = externalFiles[i];
+						try {
+							const arrayBuffer = await file.arrayBuffer();
+							const uint8Array = new Uint8Array(arrayBuffer);
+
+							let fileName = file.name;
+							let filePath = this.getNewPath(root, fileName);
+
+							let counter = 1;
+							const baseName = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+							const extension = fileName.substring(fileName.lastIndexOf('.')) || '';
+
+							while (await this.app.vault.adapter.exists(filePath)) {
+								fileName = `${baseName} ${counter}${extension}`;
+								filePath = this.getNewPath(root, fileName);
+								counter++;
+							}
+
+							const newFile = await this.app.vault.createBinary(filePath, uint8Array);
+							importedCount++;
+							lastImportedFile = newFile;
+						} catch (error) {
+							console.error(`Failed to import file ${file.name}:`, error);
+							new Notice(`Failed to import ${file.name}`);
+						}
+					}
+
+					if (importedCount > 0) {
+						new Notice(`Imported ${importedCount} file${importedCount > 1 ? 's' : ''} to ${this.app.vault.getName()}`);
+
+						if (importedCount === 1 && lastImportedFile) {
+							await this.app.workspace.getLeaf(false).openFile(lastImportedFile);
+						}
+
+						this.selectedFolder = root;
+						this.updateSelectedFolderHighlight();
+						await this.renderPreview();
+					}
+					return;
+				}
+
+				// Handle a multi-file selection dragged from the preview panel
+				const selectedPaths = e.dataTransfer?.getData(SELECTED_FILES_DRAG_TYPE);
+				if (selectedPaths) {
+					await this.moveFilesToFolder(this.getFilesFromPaths(JSON.parse(selectedPaths) as string[]), root);
+					return;
+				}
+
+				// Handle internal vault file/folder moves
+				const rawDragData = e.dataTransfer?.getData("text/plain");
+				if (!rawDragData) return;
+
+				const draggedPath = this.extractFilePathFromDragData(rawDragData);
+				if (!draggedPath) return;
+
+				const draggedItem = this.app.vault.getAbstractFileByPath(draggedPath);
+				if (!draggedItem) return;
+
+				const isFolder = e.dataTransfer?.getData("application/x-obsidian-folder") === "true";
+
+				// Handle folder drops
+				if (isFolder && draggedItem instanceof TFolder) {
+					// Don't move if already in root
+					if (draggedItem.parent === root) {
+						new Notice("Folder is already in this location");
+						return;
+					}
+
+					const newPath = this.getNewPath(root, draggedItem.name);
+					try {
+						await this.app.vault.rename(draggedItem, newPath);
+					} catch (error) {
+						console.error("Failed to move folder:", error);
+						new Notice("Failed to move folder");
+					}
+				}
+				// Handle file drops
+				else if (draggedItem instanceof TFile) {
+					// Don't move if already in root
+					if (draggedItem.parent === root) {
+						return;
+					}
+
+					const newPath = this.getNewPath(root, draggedItem.name);
+					try {
+						await this.app.vault.rename(draggedItem, newPath);
+					} catch (error) {
+						console.error("Failed to move file:", error);
+						new Notice("Failed to move file");
+					}
+				}
+			};
+
+			handleDrop().catch(console.error);
+		});
+
+		this.renderFolderBadges(folderHeader, root.path);
+
+		// Create content container for child folders
+		const folderContent = folderEl.createDiv({ cls: "ftpreview-folder-content" });
+		// Not collapsed by default
+
+		this.folderNodes.set(root.path, {
+			el: folderEl,
+			header: folderHeader,
+			content: folderContent,
+			level: 0,
+			parentPath: null
+		});
+
+		// Render all child folders inside (starting at level 1)
+		await this.renderFolder(root, folderContent, 1);
+	}
+
+	private async renderFolder(folder: TFolder, container: HTMLElement, level: number) {
+		for (const item of this.getSortedSubfolders(folder)) {
+			// Skip folders hidden by the tree filter
+			if (this.treeFilterVisible && !this.treeFilterVisible.has(item.path)) {
+				continue;
+			}
+
+			await this.renderFolderNode(item, container, level, null);
+		}
+	}
+
+	private getSortedSubfolders(folder: TFolder): TFolder[] {
+		// Get only folders, in the tree's sort order with pinned folders first
+		const subfolders = folder.children
+			.filter((item): item is TFolder => item instanceof TFolder)
+			.sort((a, b) => compareFolderNames(a, b));
+
+		switch (this.plugin.data.folderSortOrder) {
+			case "modified": {
+				const mtimes = new Map<TFolder, number>();
+				subfolders.forEach(subfolder => mtimes.set(subfolder, this.getLatestMtime(subfolder)));
+				subfolders.sort((a, b) => (mtimes.get(b) ?? 0) - (mtimes.get(a) ?? 0));
+				break;
+			}
+			case "file-count": {
+				// Recursive counts are kept up to date by vault events
+				const count = (subfolder: TFolder) => this.folderCounts.get(subfolder.path)?.recursive ?? 0;
+				subfolders.sort((a, b) => count(b) - count(a));
+				break;
+			}
+			case "manual": {
+				// Folders not placed by dragging yet keep name order after the placed ones
+				const order = this.plugin.data.folderManualOrder[folder.path] ?? [];
+				const position = (subfolder: TFolder) => {
+					const index = order.indexOf(subfolder.path);
+					return index === -1 ? order.length : index;
+				};
+				subfolders.sort((a, b) => position(a) - position(b));
+				break;
+			}
+		}
+
+		// Stable sort keeps the chosen order within pinned and unpinned folders
+		return subfolders.sort((a, b) => Number(this.isFolderPinned(b)) - Number(this.isFolderPinned(a)));
+	}
+
+	private getLatestMtime(folder: TFolder): number {
+		// Most recent modification time of any file inside the folder, cached until a file below it changes
+		const cached = this.latestMtimes.get(folder.path);
+		if (cached !== undefined) return cached;
+
+		let latest = 0;
+		for (const child of folder.children) {
+			if (child instanceof TFile) {
+				latest = Math.max(latest, child.stat.mtime);
+			} else if (child instanceof TFolder) {
+				latest = Math.max(latest, this.getLatestMtime(child));
+			}
+		}
+		this.latestMtimes.set(folder.path, latest);
+		return latest;
+	}
+
+	private updateFolderSortKeys(path: string) {
+		// A file event changes the latest mtime and file count of every folder above it
+		Array.from(this.latestMtimes.keys())
+			.filter(folderPath => isPathWithin(folderPath, path))
+			.forEach(folderPath => this.latestMtimes.delete(folderPath));
+
+		// Orders built on those keys are patched at each level, which moves folders whose place changed
+		const folderSortOrder = this.plugin.data.folderSortOrder;
+		const isKeyedOrder = folderSortOrder === "modified" || folderSortOrder === "file-count";
+		let folderPath = this.getParentPath(path);
+		for (;;) {
+			this.latestMtimes.delete(folderPath);
+			if (isKeyedOrder) {
+				this.queueTreeUpdate(folderPath);
+			}
+			if (folderPath === "/") break;
+			folderPath = this.getParentPath(folderPath);
+		}
+	}
+
+	private isFolderPinned(folder: TFolder): boolean {
+		return this.plugin.data.pinnedFolders.includes(folder.path);
+	}
+
+	private toggleFolderPin(folder: TFolder) {
+		const pinnedFolders = this.plugin.data.pinnedFolders;
+		if (this.isFolderPinned(folder)) {
+			pinnedFolders.remove(folder.path);
+		} else {
+			pinnedFolders.push(folder.path);
+		}
+		this.plugin.savePluginData().catch(console.error);
+		this.renderFileTree().catch(console.error);
+	}
+
+	private moveFolderInManualOrder(dragged: TFolder, target: TFolder, after: boolean) {
+		// Place the dragged folder next to its sibling and save the parent's full order
+		const parent = target.parent;
+		if (!parent || dragged.parent !== parent || dragged === target) return;
+
+		const order = this.getSortedSubfolders(parent)
+			.map(subfolder => subfolder.path)
+			.filter(path => path !== dragged.path);
+		const targetIndex = order.indexOf(target.path);
+		order.splice(after ? targetIndex + 1 : targetIndex, 0, dragged.path);
+
+		this.plugin.data.folderManualOrder[parent.path] = order;
+		this.plugin.savePluginData().catch(console.error);
+		this.queueTreeUpdate(parent.path);
+	}
+
+	private getFolderDropPosition(e: DragEvent, folderHeader: HTMLElement, item: TFolder): "before" | "after" | null {
+		// In manual folder order, the top and bottom edges of a sibling's header reorder instead of moving into it
+		if (this.plugin.data.folderSortOrder !== "manual" || !this.draggedFolderPath || this.draggedFolderPath === item.path) {
+			return null;
+		}
+		if (this.getParentPath(this.draggedFolderPath) !== this.getParentPath(item.path)) {
+			return null;
+		}
+		const rect = folderHeader.getBoundingClientRect();
+		if (e.clientY < rect.top + rect.height / 4) return "before";
+		if (e.clientY > rect.bottom - rect.height / 4) return "after";
+		return null;
+	}
+
+	private async renderFolderNode(item: TFolder, container: HTMLElement, level: number, before: Node | null) {
+		// Render one folder (header plus its subfolder content) before the given sibling, or at the end
+		const isSelected = this.selectedFolder === item;
+		const hasSubfolders = item.children.some(child => child instanceof TFolder);
+		const isCollapsed = this.isFolderCollapsed(item.path);
+
+		const folderEl = container.createDiv({ cls: "ftpreview-folder-item" });
+		container.insertBefore(folderEl, before);
+		folderEl.setCssProps({ 'padding-left': `calc(var(--ftpreview-folder-indent) * ${level})` });
+
+		const folderHeader = folderEl.createDiv({
+			cls: "ftpreview-folder-header" + (isSelected ? " ftpreview-selected" : "") + (this.matchesTreeFilter(item) ? " ftpreview-folder-match" : ""),
+			attr: { "data-folder-path": item.path, tabindex: "-1", role: "treeitem" }
+		});
+
+		// Add caret if folder has subfolders
+		if (hasSubfolders) {
+			folderHeader.setAttribute("aria-expanded", String(!isCollapsed));
+
+			const caret = folderHeader.createSpan({ cls: "ftpreview-folder-caret" });
+			// Use Obsidian's setIcon helper
+			setIcon(caret, "right-triangle");
+
+			// Apply collapsed state to caret
+			if (isCollapsed) {
+				caret.addClass("ftpreview-collapsed");
+			}
+
+			// Toggle collapse on caret click
+			caret.addEventListener("click", (e) => {
+				e.stopPropagation();
+				const willBeCollapsed = !folderContent.hasClass("ftpreview-collapsed");
+				folderContent.toggleClass("ftpreview-collapsed", willBeCollapsed);
+				caret.toggleClass("ftpreview-collapsed", willBeCollapsed);
+				folderHeader.setAttribute("aria-expanded", String(!willBeCollapsed));
+				this.setFolderCollapsed(item.path, willBeCollapsed);
+			});
+		} else {
+			// Add spacer for alignment when no caret
+			folderHeader.createSpan({ cls: "ftpreview-folder-caret-spacer" });
+		}
+
+		// Determine folder icon based on preference
+		const iconStyle = this.plugin.data.folderIconStyle;
+		const folderNameSpan = folderHeader.createSpan({ cls: "ftpreview-folder-name" });
+
+		if (iconStyle === "none") {
+			folderNameSpan.setText(item.name);
+		} else if (iconStyle === "custom") {
+			// Try to get custom icon from folder properties
+			const customIcon = this.getFolderIcon(item);
+			// Default icon: TiFolder for folders without subfolders, LiFolders for folders with subfolders
+			const defaultIcon = hasSubfolders ? "LiFolders" : "TiFolder";
+			const iconToRender = customIcon ? customIcon.value : defaultIcon;
+
+			if (customIcon?.type === 'emoji') {
+				// Simple emoji - just add as text
+				folderNameSpan.setText(customIcon.value + " " + item.name);
+			} else {
+				// Icon identifier - use Iconize plugin to render it
+				try {
+					const iconFolderPlugin = (this.app as App & { plugins?: { plugins?: Record<string, IconizePlugin> } }).plugins?.plugins?.['obsidian-icon-folder'];
+
+					if (iconFolderPlugin?.api?.getIconByName) {
+						// Try to get the icon element from Iconize
+						const iconData = iconFolderPlugin.api.getIconByName(iconToRender);
+
+						if (iconData && iconData.svgElement) {
+							// Create a container for the icon
+							const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
+							// Use DOM parser to safely insert SVG
+							const parser = new DOMParser();
+							const doc = parser.parseFromString(iconData.svgElement, 'image/svg+xml');
+							const svgEl = doc.documentElement;
+							if (svgEl && !svgEl.querySelector('parsererror')) {
+								iconContainer.appendChild(svgEl);
+							}
+
+							// Add the folder name after the icon
+							folderNameSpan.appendText(" " + item.name);
+						} else {
+							// If icon not found, try default folder icon based on collapsed state
+							const fallbackIcon = iconFolderPlugin.api.getIconByName(defaultIcon);
+							if (fallbackIcon && fallbackIcon.svgElement) {
+								const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
+								// Use DOM parser to safely insert SVG
+								const parser = new DOMParser();
+								const doc = parser.parseFromString(fallbackIcon.svgElement, 'image/svg+xml');
+								const svgEl = doc.documentElement;
+								if (svgEl && !svgEl.querySelector('parsererror')) {
+									iconContainer.appendChild(svgEl);
+								}
+								folderNameSpan.appendText(" " + item.name);
+							} else {
+								// Last resort - no icon
+								folderNameSpan.setText(item.name);
+							}
+						}
+					} else {
+						folderNameSpan.setText(item.name);
+					}
+				} catch (error) {
+					console.error("Error rendering icon:", error);
+					folderNameSpan.setText(item.name);
+				}
+			}
+		} else if (iconStyle === "folder") {
+			folderNameSpan.setText("📁 " + item.name);
+		}
+
+		if (this.isFolderPinned(item)) {
+			const pinIndicator = folderHeader.createSpan({ cls: "ftpreview-pin-indicator", text: " 📌" });
+			pinIndicator.setAttribute("aria-label", "Pinned");
+		}
+
+		this.renderFolderBadges(folderHeader, item.path);
+
+		const folderContent = container.createDiv({ cls: "ftpreview-folder-content" });
+		container.insertBefore(folderContent, before);
+
+		// Register the node so vault changes can patch it in place
+		this.folderNodes.set(item.path, {
+			el: folderEl,
+			header: folderHeader,
+			content: folderContent,
+			level,
+			parentPath: this.getParentPath(item.path)
+		});
+
+		// Apply collapsed state to content
+		if (isCollapsed) {
+			folderContent.addClass("ftpreview-collapsed");
+		}
+
+		// Make folder draggable (only on non-touch devices)
+		if (!this.isTouchDevice) {
+			folderHeader.setAttribute("draggable", "true");
+		}
+		folderHeader.addEventListener("dragstart", (e) => {
+			e.stopPropagation();
+			this.draggedFolderPath = item.path;
+			e.dataTransfer?.setData("text/plain", item.path);
+			e.dataTransfer?.setData("application/x-obsidian-folder", "true");
+			if (e.dataTransfer) {
+				e.dataTransfer.effectAllowed = "move";
+			}
+
+			// Create custom drag ghost - just folder name in a pill
+			this.dragGhost = document.body.createDiv({ cls: "ftpreview-drag-ghost" });
+			this.dragGhost.setText(item.name);
+
+			// Get the computed accent color and make it 50% transparent
+			const accentColor = getComputedStyle(document.body).getPropertyValue('--interactive-accent').trim();
+			this.dragGhost.setCssProps({
+				position: "fixed",
+				left: "-9999px",
+				top: "0",
+				backgroundColor: `color-mix(in srgb, ${accentColor} 50%, transparent)`,
+				color: getComputedStyle(document.body).getPropertyValue('--text-on-accent').trim()
+			});
+
+			// Set the custom drag image
+			if (e.dataTransfer) {
+				e.dataTransfer.setDragImage(this.dragGhost, 50, 15);
+			}
+
+			folderHeader.addClass("ftpreview-dragging");
+		});
+
+		folderHeader.addEventListener("dragend", () => {
+			folderHeader.removeClass("ftpreview-dragging");
+			this.draggedFolderPath = null;
+
+			// Clean up the drag ghost
+			if (this.dragGhost) {
+				this.dragGhost.remove();
+				this.dragGhost = null;
+			}
+		});
+
+		// Click on folder name to select (but not collapse)
+		folderHeader.addEventListener("click", () => {
+			this.selectedFolder = item;
+			this.updateSelectedFolderHighlight();
+			this.renderPreview().catch(console.error);
+		});
+
+		// Right-click context menu for folders
+		folderHeader.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			const menu = new Menu();
+			this.buildFolderContextMenu(menu, item);
+			menu.showAtMouseEvent(e);
+		});
+
+		// Touch handlers for folders - distinguish tap (select) from hold (menu) from drag
+		let folderTouchStartTime = 0;
+		let folderTouchTimer: number | null = null;
+		let folderMenuShown = false;
+
+		folderHeader.addEventListener("touchstart", (e) => {
+			folderTouchStartTime = Date.now();
+			folderMenuShown = false;
+
+			// Set a timer for 500ms - if it completes, show context menu
+			folderTouchTimer = window.setTimeout(() => {
+				folderMenuShown = true;
+				folderTouchTimer = null;
+
+				// Show context menu after long press
+				const menu = new Menu();
+				this.buildFolderContextMenu(menu, item);
+
+				// Show menu at touch position
+				const touch = (e as TouchEvent).touches[0];
+				if (touch) {
+					menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
+				}
+			}, 500);
+		});
+
+		folderHeader.addEventListener("touchmove", (e) => {
+			// If finger moves, user is dragging - cancel the menu timer
+			if (folderTouchTimer) {
+				window.clearTimeout(folderTouchTimer);
+				folderTouchTimer = null;
+			}
+		});
+
+		folderHeader.addEventListener("touchend", (e) => {
+			// Clear the timer if it's still running
+			if (folderTouchTimer) {
+				window.clearTimeout(folderTouchTimer);
+				folderTouchTimer = null;
+			}
+
+			// If touch was less than 500ms and menu wasn't shown, allow folder selection
+			const touchDuration = Date.now() - folderTouchStartTime;
+			if (touchDuration < 500 && !folderMenuShown) {
+				// Let the default click behavior happen (folder selection)
+				// Don't prevent default here - allow normal folder selection
+			} else if (folderMenuShown) {
+				// Menu was shown, prevent any other actions
+				e.preventDefault();
+			}
+		});
+
+		folderHeader.addEventListener("touchcancel", () => {
+			// Clean up timer if touch is cancelled
+			if (folderTouchTimer) {
+				window.clearTimeout(folderTouchTimer);
+				folderTouchTimer = null;
+			}
+		});
+
+		// Drag and drop handlers - make folder a drop zone
+		folderHeader.addEventListener("dragover", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			if (e.dataTransfer) {
+				// Check if it's an external file drop or internal move
+				const isExternalFiles = e.dataTransfer.types.includes('Files');
+				e.dataTransfer.dropEffect = isExternalFiles ? "copy" : "move";
+			}
+			const position = this.getFolderDropPosition(e, folderHeader, item);
+			folderHeader.toggleClass("ftpreview-drop-target", position === null);
+			folderHeader.toggleClass("ftpreview-drop-before", position === "before");
+			folderHeader.toggleClass("ftpreview-drop-after", position === "after");
+		});
+
+		folderHeader.addEventListener("dragleave", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			folderHeader.removeClass("ftpreview-drop-target");
+			folderHeader.removeClass("ftpreview-drop-before");
+			folderHeader.removeClass("ftpreview-drop-after");
+		});
+
+		folderHeader.addEventListener("drop", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			folderHeader.removeClass("ftpreview-drop-target");
+			folderHeader.removeClass("ftpreview-drop-before");
+			folderHeader.removeClass("ftpreview-drop-after");
+
+			// Dropped on a sibling's edge - reorder rather than move
+			const position = this.getFolderDropPosition(e, folderHeader, item);
+			const draggedFolder = this.draggedFolderPath ? this.getFolderByPath(this.draggedFolderPath) : null;
+			if (position && draggedFolder) {
+				this.moveFolderInManualOrder(draggedFolder, item, position === "after");
+				return;
+			}
+
+			const handleDrop = async () => {
+				// Check if this is an external file drop (from OS)
+				const externalFiles = e.dataTransfer?.files;
+				if (externalFiles && externalFiles.length > 0) {
+					// Handle external file imports
+					let importedCount = 0;
+					let lastImportedFile: TFile | null = null;
+
+					for (let i = 0; i < externalFiles.length; i++) {
+						const file = externalFiles[i];
+						try {
+							// Read the file data
+							const arrayBuffer = await file.arrayBuffer();
+							const uint8Array = new Uint8Array(arrayBuffer);
+
+							// Determine the file path in the vault
+							let fileName = file.name;
+							let filePath = this.getNewPath(item, fileName);
+
+							// Handle naming conflicts
+							let counter = 1;
+							const baseName = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+							const extension = fileName.substring(fileName.lastIndexOf('.')) || '';
+
+							while (await this.app.vault.adapter.exists(filePath)) {
+								fileName = `${baseName} ${counter}${extension}`;
+								filePath = this.getNewPath(item, fileName);
+								counter++;
+							}
+
+							// Create the file in the vault
+							const newFile = await this.app.vault.createBinary(filePath, uint8Array);
+							importedCount++;
+							lastImportedFile = newFile;
+						} catch (error) {
+							console.error(`Failed to import file ${file.name}:`, error);
+							new Notice(`Failed to import ${file.name}`);
+						}
+					}
+
+					if (importedCount > 0) {
+						new Notice(`Imported ${importedCount} file${importedCount > 1 ? 's' : ''} to ${item.name}`);
+
+						// Open the last imported file if it's a single file
+						if (importedCount === 1 && lastImportedFile) {
+							await this.app.workspace.getLeaf(false).openFile(lastImportedFile);
+						}
+
+						// Select the folder and refresh the preview
+						this.selectedFolder = item;
+						this.updateSelectedFolderHighlight();
+						await this.renderPreview();
+					}
+					return;
+				}
+
+				// Handle a multi-file selection dragged from the preview panel
+				const selectedPaths = e.dataTransfer?.getData(SELECTED_FILES_DRAG_TYPE);
+				if (selectedPaths) {
+					await this.moveFilesToFolder(this.getFilesFromPaths(JSON.parse(selectedPaths) as string[]), item);
+					return;
+				}
+
+				// Handle internal vault file/folder moves
+				const rawDragData = e.dataTransfer?.getData("text/plain");
+				if (!rawDragData) return;
+
+				const draggedPath = this.extractFilePathFromDragData(rawDragData);
+				if (!draggedPath) return;
+
+				const draggedItem = this.app.vault.getAbstractFileByPath(draggedPath);
+				if (!draggedItem) return;
+
+				const isFolder = e.dataTransfer?.getData("application/x-obsidian-folder") === "true";
+
+				// Handle folder drops
+				if (isFolder && draggedItem instanceof TFolder) {
+					// Can't move folder into itself
+					if (draggedItem === item) {
+						new Notice("Cannot move a folder into itself");
+						return;
+					}
+
+					// Can't move folder into one of its descendants
+					if (this.isDescendantOf(item, draggedItem)) {
+						new Notice("Cannot move a folder into one of its subfolders");
+						return;
+					}
+
+					// Don't move if already in this folder
+					if (draggedItem.parent === item) {
+						new Notice("Folder is already in this location");
+						return;
+					}
+
+					// Move the folder
+					const newPath = this.getNewPath(item, draggedItem.name);
+					try {
+						await this.app.vault.rename(draggedItem, newPath);
+						// Vault rename event will trigger re-render automatically
+					} catch (error) {
+						console.error("Failed to move folder:", error);
+						new Notice("Failed to move folder");
+					}
+				}
+				// Handle file drops
+				else if (draggedItem instanceof TFile) {
+					// Don't move if already in this folder
+					if (draggedItem.parent === item) {
+						return; // Silent for files as it's obvious
+					}
+
+					// Move the file
+					const newPath = this.getNewPath(item, draggedItem.name);
+					try {
+						await this.app.vault.rename(draggedItem, newPath);
+						// Vault rename event will trigger re-render automatically
+					} catch (error) {
+						console.error("Failed to move file:", error);
+						new Notice("Failed to move file");
+					}
+				}
+			};
+
+			handleDrop().catch(console.error);
+		});
+
+		await this.renderFolder(item, folderContent, level + 1);
+	}
+
+	async renderPreview() {
+		// Remember if the filter box had focus so typing isn't interrupted by a re-render
+		const filterHadFocus = this.previewFilterInput !== null && document.activeElement === this.previewFilterInput;
+		// Same for the focused card
+		const focusedCardPath = this.getFocusedPath(this.previewContent, "data-file-path");
+
+		// Keep the scroll position when re-rendering the same folder
+		const previousScrollTop = this.previewContent.scrollTop;
+		const isSameFolder = this.lastPreviewFolder === this.selectedFolder;
+
+		this.previewHeader.empty();
+		this.previewContent.empty();
+		this.previewFilterInput = null;
+		this.previewList = null;
+		this.previewFiles = [];
+		this.filteredFiles = [];
+		this.visibleFiles = [];
+		this.previewRows = [];
+		this.releaseAllCardRenders();
+		this.renderedRows.clear();
+		this.renderedCards.clear();
+		this.pendingTextLoads.clear();
+		this.pendingThumbnailLoads.clear();
+
+		// Resolve the folder's view preset before anything reads sort order or line count
+		this.viewSettings = this.getFolderViewSettings(this.selectedFolder);
+		// Entering a folder whose preset sets a layout shows that layout; otherwise the collapse state carries over
+		if (this.lastPreviewFolder !== this.selectedFolder && this.selectedFolder
+			&& this.getApplicablePresets(this.selectedFolder).some(([, preset]) => preset.cardLayout !== undefined)) {
+			this.previewsCollapsed = false;
+		}
+		// Collapsed previews show titles only, whatever the layout
+		if (this.previewsCollapsed) {
+			this.viewSettings.cardLayout = "titles";
+		}
+
+		// Card heights change with the layout, so measure them again
+		if (this.lastCardLayout !== this.viewSettings.cardLayout) {
+			(Object.keys(CARD_LAYOUT_LABELS) as CardLayout[]).forEach(cardLayout => {
+				this.previewContent.toggleClass(`ftpreview-layout-${cardLayout}`, cardLayout === this.viewSettings.cardLayout);
+			});
+			// Older class for titles only, kept for CSS snippets that target it
+			this.previewContent.toggleClass("ftpreview-previews-collapsed", this.viewSettings.cardLayout === "titles");
+			this.rowHeights.clear();
+		}
+		this.lastCardLayout = this.viewSettings.cardLayout;
+
+		// Reset the filter and selection when switching to a different folder
+		if (this.lastPreviewFolder !== this.selectedFolder) {
+			// Nothing in the open folder counts as new, so its visit is stamped on the way out
+			if (this.lastPreviewFolder) {
+				this.markFolderVisited(this.lastPreviewFolder);
+			}
+			if (this.selectedFolder) {
+				this.clearRecentFiles(this.selectedFolder);
+			}
+			this.previewFilter = "";
+			this.selectedFiles.clear();
+			this.selectionAnchor = null;
+			this.lastPreviewFolder = this.selectedFolder;
+		}
+
+		if (!this.selectedFolder) {
+			this.previewHeader.setText("");
+			this.previewContent.createDiv({
+				text: "Select a folder to preview its files",
+				cls: "ftpreview-no-selection"
+			});
+			return;
+		}
+
+		// Create header layout
+		const headerLeft = this.previewHeader.createDiv({ cls: "ftpreview-preview-header-left" });
+		// Show vault name for root folder, otherwise show folder name
+		const displayName = this.selectedFolder.path === "/"
+			? this.app.vault.getName()
+			: this.selectedFolder.name;
+		headerLeft.setText(displayName);
+
+		// Show which folder view preset is in effect
+		const presetPath = this.viewSettings.presetPath;
+		if (presetPath !== null) {
+			const isInherited = presetPath !== this.selectedFolder.path;
+			const presetButton = headerLeft.createEl("button", {
+				cls: "ftpreview-header-button ftpreview-header-button-active ftpreview-preset-indicator",
+				attr: { "aria-label": isInherited ? `Folder view inherited from ${this.getFolderDisplayName(presetPath)}` : "Folder view" }
+			});
+			presetButton.setText("◧");
+
+			presetButton.addEventListener("click", (e) => {
+				const folder = this.selectedFolder;
+				if (!folder) return;
+				const menu = new Menu();
+
+				if (isInherited) {
+					menu.addItem((item) => {
+						item.setTitle(`Inherited from ${this.getFolderDisplayName(presetPath)}`)
+							.setDisabled(true);
+					});
+				}
+
+				menu.addItem((item) => {
+					item.setTitle("Edit folder view...")
+						.setIcon("layout")
+						.onClick(() => this.openFolderViewModal(folder));
+				});
+
+				menu.addItem((item) => {
+					item.setTitle(isInherited ? `Reset ${this.getFolderDisplayName(presetPath)} to default` : "Reset to default")
+						.setIcon("rotate-ccw")
+						.onClick(() => {
+							const resetPreset = async () => {
+								delete this.plugin.data.folderPresets[presetPath];
+								await this.plugin.savePluginData();
+								await this.renderPreview();
+							};
+							resetPreset().catch(console.error);
+						});
+				});
+
+				menu.showAtMouseEvent(e);
+			});
+		}
+
+		const headerRight = this.previewHeader.createDiv({ cls: "ftpreview-preview-header-right" });
+
+		// Add filter input
+		const filterInput = headerRight.createEl("input", {
+			type: "search",
+			cls: "ftpreview-preview-filter",
+			attr: { placeholder: "Filter", "aria-label": "Filter files" }
+		});
+		filterInput.value = this.previewFilter;
+		this.previewFilterInput = filterInput;
+
+		filterInput.addEventListener("input", () => {
+			this.previewFilter = filterInput.value;
+			this.applyPreviewFilter();
+		});
+
+		// Clear the filter on Escape, move to the cards on arrow down
+		filterInput.addEventListener("keydown", (e) => {
+			if (e.key === "Escape" && filterInput.value) {
+				e.preventDefault();
+				filterInput.value = "";
+				this.previewFilter = "";
+				this.applyPreviewFilter();
+			} else if (e.key === "ArrowDown") {
+				e.preventDefault();
+				this.focusCardTabStop();
+			}
+		});
+
+		if (filterHadFocus) {
+			filterInput.focus();
+		}
+
+		// Add sort menu button
+		const sortButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button",
+			attr: { "aria-label": "Sort files" }
+		});
+		sortButton.setText("⇅");
+
+		sortButton.addEventListener("click", (e) => {
+			const menu = new Menu();
+
+			menu.addItem((item) => {
+				item.setTitle("Name (a to z)")
+					.setChecked(this.viewSettings.sortOrder === "name-asc")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("name-asc");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addItem((item) => {
+				item.setTitle("Name (z to a)")
+					.setChecked(this.viewSettings.sortOrder === "name-desc")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("name-desc");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addSeparator();
+
+			menu.addItem((item) => {
+				item.setTitle("Date modified (newest first)")
+					.setChecked(this.viewSettings.sortOrder === "modified-new")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("modified-new");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addItem((item) => {
+				item.setTitle("Date modified (oldest first)")
+					.setChecked(this.viewSettings.sortOrder === "modified-old")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("modified-old");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addSeparator();
+
+			menu.addItem((item) => {
+				item.setTitle("Date created (newest first)")
+					.setChecked(this.viewSettings.sortOrder === "created-new")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("created-new");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addItem((item) => {
+				item.setTitle("Date created (oldest first)")
+					.setChecked(this.viewSettings.sortOrder === "created-old")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("created-old");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addSeparator();
+
+			menu.addItem((item) => {
+				item.setTitle("Manual (drag to reorder)")
+					.setChecked(this.viewSettings.sortOrder === "manual")
+					.onClick(() => {
+						const updateSort = async () => {
+							this.setSortOrder("manual");
+							await this.plugin.savePluginData();
+							await this.renderPreview();
+						};
+						updateSort().catch(console.error);
+					});
+			});
+
+			menu.addItem((item) => {
+				const isPropertySort = this.viewSettings.sortOrder === "property" && this.viewSettings.sortProperty;
+				item.setTitle(isPropertySort ? `Property: ${this.viewSettings.sortProperty}...` : "Sort by property...")
+					.setChecked(this.viewSettings.sortOrder === "property")
+					.onClick(() => {
+						const options: SortPropertyOptions = {
+							property: this.viewSettings.sortProperty,
+							descending: this.viewSettings.sortPropertyDescending,
+							missing: this.viewSettings.sortPropertyMissing
+						};
+						new SortPropertyModal(this.app, this.getFrontmatterKeys(this.previewFiles), options, (newOptions) => {
+							const updateSort = async () => {
+								this.setSortOrder("property");
+								this.setSortProperty(newOptions);
+								await this.plugin.savePluginData();
+								await this.renderPreview();
+							};
+							updateSort().catch(console.error);
+						}).open();
+					});
+			});
+
+			menu.addSeparator();
+
+			menu.addItem((item) => {
+				item.setTitle("Folder view...")
+					.setIcon("layout")
+					.onClick(() => {
+						if (this.selectedFolder) {
+							this.openFolderViewModal(this.selectedFolder);
+						}
+					});
+			});
+
+			menu.showAtMouseEvent(e);
+		});
+
+		// Add open tasks filter toggle button
+		const openTasksOnly = this.viewSettings.openTasksOnly;
+		const tasksButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button" + (openTasksOnly ? " ftpreview-header-button-active" : ""),
+			attr: { "aria-label": openTasksOnly ? "Show all files" : "Show only notes with open tasks" }
+		});
+		tasksButton.setText("☑");
+
+		tasksButton.addEventListener("click", () => {
+			const toggleOpenTasks = async () => {
+				this.setOpenTasksOnly(!openTasksOnly);
+				await this.plugin.savePluginData();
+				await this.renderPreview();
+			};
+			toggleOpenTasks().catch(console.error);
+		});
+
+		// Add include subfolders toggle button
+		const subfoldersButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button" + (this.plugin.data.includeSubfolders ? " ftpreview-header-button-active" : ""),
+			attr: { "aria-label": this.plugin.data.includeSubfolders ? "Hide files in subfolders" : "Include files in subfolders" }
+		});
+		subfoldersButton.setText("↳");
+
+		subfoldersButton.addEventListener("click", () => {
+			const toggleSubfolders = async () => {
+				this.plugin.data.includeSubfolders = !this.plugin.data.includeSubfolders;
+				await this.plugin.savePluginData();
+				await this.renderPreview();
+			};
+			toggleSubfolders().catch(console.error);
+		});
+
+		// Add card layout menu button
+		const layoutGlyphs: Record<CardLayout, string> = { cards: "▤", gallery: "▦", titles: "☰" };
+		const layoutButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button",
+			attr: { "aria-label": "Card layout" }
+		});
+		layoutButton.setText(layoutGlyphs[this.viewSettings.cardLayout]);
+
+		layoutButton.addEventListener("click", (e) => {
+			const menu = new Menu();
+			(Object.keys(CARD_LAYOUT_LABELS) as CardLayout[]).forEach(cardLayout => {
+				menu.addItem((item) => {
+					item.setTitle(CARD_LAYOUT_LABELS[cardLayout])
+						.setChecked(this.viewSettings.cardLayout === cardLayout)
+						.onClick(() => {
+							const updateLayout = async () => {
+								this.previewsCollapsed = false;
+								this.setCardLayout(cardLayout);
+								await this.plugin.savePluginData();
+								await this.renderPreview();
+							};
+							updateLayout().catch(console.error);
+						});
+				});
+			});
+			menu.showAtMouseEvent(e);
+		});
+
+		// Add collapse preview button
+		const collapseButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button",
+			attr: { "aria-label": this.previewsCollapsed ? "Expand previews" : "Collapse previews" }
+		});
+		collapseButton.setText(this.previewsCollapsed ? "⊕" : "⊖");
+
+		collapseButton.addEventListener("click", () => {
+			this.previewsCollapsed = !this.previewsCollapsed;
+			this.renderPreview().catch(console.error);
+		});
+
+		// Add new file button
+		const newFileButton = headerRight.createEl("button", {
+			cls: "ftpreview-header-button",
+			attr: { "aria-label": "New file" }
+		});
+		newFileButton.setText("+");
+
+		newFileButton.addEventListener("click", () => {
+			if (this.selectedFolder) {
+				const createFile = async () => {
+					try {
+						const fileName = "Untitled.md";
+						let filePath = `${this.selectedFolder!.path}/${fileName}`;
+						let counter = 1;
+
+						// Handle naming conflicts
+						while (await this.app.vault.adapter.exists(filePath)) {
+							filePath = `${this.selectedFolder!.path}/Untitled ${counter}.md`;
+							counter++;
 						}
+
+						const file = await this.app.vault.create(filePath, "");
+						await this.app.workspace.getLeaf(false).openFile(file);
+					} catch (error) {
+						console.error("Error creating new file:", error);
+						new Notice("Failed to create new file");
 					}
-				} else {
-					folderNameSpan.setText(this.app.vault.getName());
-				}
-			} catch (error) {
-				console.error("Error rendering vault icon:", error);
-				folderNameSpan.setText(this.app.vault.getName());
+				};
+				createFile().catch(console.error);
 			}
-		} else if (iconStyle === "folder") {
-			folderNameSpan.setText("📁 " + this.app.vault.getName());
+		});
+
+		// Get all files in the selected folder (and its subfolders if enabled), limited to the preset's file types
+		const folderFiles = this.collectFiles(this.selectedFolder, this.plugin.data.includeSubfolders);
+		const fileTypes = this.viewSettings.fileTypes;
+		const files = fileTypes ? folderFiles.filter(file => fileTypes.includes(this.getFileCategory(file))) : folderFiles;
+
+		if (files.length === 0) {
+			this.previewContent.createDiv({
+				text: folderFiles.length === 0 ? "This folder contains no files" : "This folder contains no files of the types shown",
+				cls: "ftpreview-no-selection"
+			});
+			return;
 		}
 
-		// Click handler to show root-level files
-		folderHeader.addEventListener("click", async () => {
-			this.selectedFolder = root;
-			await Promise.all([
-				this.renderFileTree(),
-				this.renderPreview()
-			]).catch(console.error);
+		// Drop selected files that are no longer in this folder
+		const filePaths = new Set(files.map(file => file.path));
+		this.selectedFiles.forEach((path) => {
+			if (!filePaths.has(path)) {
+				this.selectedFiles.delete(path);
+			}
 		});
 
-		// Caret click handler to toggle collapse
-		caret.addEventListener("click", (e) => {
-			e.stopPropagation();
-			const willBeCollapsed = !folderContent.hasClass("ftpreview-collapsed");
-			folderContent.toggleClass("ftpreview-collapsed", willBeCollapsed);
-			caret.toggleClass("ftpreview-collapsed", willBeCollapsed);
+		// Sort files based on sort order
+		this.sortFiles(files);
+		this.previewFiles = files;
 
-			// Update collapsed state and save
-			if (willBeCollapsed) {
-				this.collapsedFolders.add(root.path);
-			} else {
-				this.collapsedFolders.delete(root.path);
+		// Cards are rendered into a windowed list between two spacers that stand in for off-screen cards
+		this.previewList = this.previewContent.createDiv({ cls: "ftpreview-preview-list" });
+		this.previewListTopSpacer = this.previewList.createDiv({ cls: "ftpreview-preview-list-spacer" });
+		this.previewListCards = this.previewList.createDiv();
+		this.previewListBottomSpacer = this.previewList.createDiv({ cls: "ftpreview-preview-list-spacer" });
+
+		if (!isSameFolder) {
+			this.previewContent.scrollTop = 0;
+		}
+		this.updateVisibleFiles();
+		if (isSameFolder) {
+			this.previewContent.scrollTop = previousScrollTop;
+			this.renderPreviewWindow();
+		}
+		this.updateCardTabStop(focusedCardPath);
+	}
+
+	private setupPreviewWindowing() {
+		this.previewContent.addEventListener("scroll", () => this.schedulePreviewWindow());
+
+		const resizeObserver = new ResizeObserver(() => {
+			// A gallery that fits a different number of columns needs its lines rebuilt
+			if (this.viewSettings?.cardLayout === "gallery" && this.previewList && this.getGalleryColumns() !== this.galleryColumns) {
+				this.updateVisibleFiles();
+				return;
 			}
-			this.plugin.data.collapsedFolders = Array.from(this.collapsedFolders);
-			this.plugin.savePluginData().catch(console.error);
+			this.schedulePreviewWindow();
 		});
+		resizeObserver.observe(this.previewContent);
+		this.register(() => resizeObserver.disconnect());
+	}
 
-		// Drag and drop handlers - make root folder a drop zone
-		folderHeader.addEventListener("dragover", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			if (e.dataTransfer) {
-				const isExternalFiles = e.dataTransfer.types.includes('Files');
-				e.dataTransfer.dropEffect = isExternalFiles ? "copy" : "move";
-			}
-			folderHeader.addClass("ftpreview-drop-target");
+	private schedulePreviewWindow() {
+		// Render at most once per frame while scrolling
+		if (this.previewWindowFrame !== null) return;
+		this.previewWindowFrame = window.requestAnimationFrame(() => {
+			this.previewWindowFrame = null;
+			this.renderPreviewWindow();
 		});
+	}
 
-		folderHeader.addEventListener("dragleave", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			folderHeader.removeClass("ftpreview-drop-target");
+	private updateVisibleFiles() {
+		// Apply the filter and grouping to the sorted file list and start over with a fresh window of rows
+		this.filteredFiles = this.previewFiles.filter(file => this.matchesPreviewFilter(file));
+		this.previewRows = this.buildPreviewRows(this.filteredFiles);
+		this.visibleFiles = [];
+		this.previewRows.forEach(row => {
+			if (row.type === "card") {
+				this.visibleFiles.push(row.file);
+			} else if (row.type === "grid") {
+				this.visibleFiles.push(...row.files);
+			}
 		});
+		this.renderedRows.forEach(row => row.remove());
+		this.releaseAllCardRenders();
+		this.renderedRows.clear();
+		this.renderedCards.clear();
+		this.renderPreviewWindow();
+		this.updateFilterEmptyState();
+	}
 
-		folderHeader.addEventListener("drop", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			folderHeader.removeClass("ftpreview-drop-target");
+	private buildPreviewRows(files: TFile[]): PreviewRow[] {
+		// Date sorts get a header per date bucket, with pinned files in their own group
+		const sortOrder = this.viewSettings.sortOrder;
+		const isDateSort = sortOrder === "modified-new" || sortOrder === "modified-old" || sortOrder === "created-new" || sortOrder === "created-old";
+		if (!isDateSort || !this.selectedFolder) {
+			return this.arrangeGalleryRows(files.map(file => ({ type: "card", file })));
+		}
 
-			const handleDrop = async () => {
-				// Check if this is an external file drop (from OS)
-				const externalFiles = e.dataTransfer?.files;
-				if (externalFiles && externalFiles.length > 0) {
-					let importedCount = 0;
-					let lastImportedFile: TFile | null = null;
+		const useCreated = sortOrder === "created-new" || sortOrder === "created-old";
+		const collapsedGroups = this.plugin.data.collapsedGroups[this.selectedFolder.path] ?? [];
+		const rows: PreviewRow[] = [];
+		let group: PreviewGroup | null = null;
 
-					for (let i = 0; i < externalFiles.length; i++) {
-						const file = externalFiles[i];
-						try {
-							const arrayBuffer = await file.arrayBuffer();
-							const uint8Array = new Uint8Array(arrayBuffer);
+		// Files are already sorted by date, so each bucket is one run of files
+		for (const file of files) {
+			const { id, label } = this.isPinned(file)
+				? { id: "pinned", label: "Pinned" }
+				: this.getDateGroup(useCreated ? file.stat.ctime : file.stat.mtime);
+			if (!group || group.id !== id) {
+				group = { id, label, count: 0, collapsed: collapsedGroups.includes(id) };
+				rows.push({ type: "group", group });
+			}
+			group.count++;
+			if (!group.collapsed) {
+				rows.push({ type: "card", file });
+			}
+		}
+		return this.arrangeGalleryRows(rows);
+	}
 
-							let fileName = file.name;
-							let filePath = this.getNewPath(root, fileName);
+	private arrangeGalleryRows(rows: PreviewRow[]): PreviewRow[] {
+		// The gallery grid is windowed one line of tiles at a time, so runs of cards are split into lines
+		if (this.viewSettings.cardLayout !== "gallery") return rows;
+
+		this.galleryColumns = this.getGalleryColumns();
+		const arranged: PreviewRow[] = [];
+		let line: TFile[] | null = null;
+		for (const row of rows) {
+			if (row.type !== "card") {
+				arranged.push(row);
+				line = null;
+				continue;
+			}
+			if (!line || line.length === this.galleryColumns) {
+				line = [];
+				arranged.push({ type: "grid", files: line });
+			}
+			line.push(row.file);
+		}
+		return arranged;
+	}
 
-							let counter = 1;
-							const baseName = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-							const extension = fileName.substring(fileName.lastIndexOf('.')) || '';
+	private getGalleryColumns(): number {
+		return Math.max(1, Math.floor(this.previewContent.clientWidth / GALLERY_MIN_COLUMN_WIDTH));
+	}
 
-							while (await this.app.vault.adapter.exists(filePath)) {
-								fileName = `${baseName} ${counter}${extension}`;
-								filePath = this.getNewPath(root, fileName);
-								counter++;
-							}
+	private getDateGroup(time: number): { id: string; label: string } {
+		// Relative buckets for recent dates, then one group per month
+		const day = 24 * 60 * 60 * 1000;
+		const now = new Date();
+		const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+		// Weeks start on the locale's first day, as in the user's calendar
+		const daysIntoWeek = (now.getDay() - moment.localeData().firstDayOfWeek() + 7) % 7;
+		const startOfWeek = startOfToday - daysIntoWeek * day;
+
+		if (time >= startOfToday) return { id: "today", label: "Today" };
+		if (time >= startOfToday - day) return { id: "yesterday", label: "Yesterday" };
+		if (time >= startOfWeek) return { id: "this-week", label: "Earlier this week" };
+		if (time >= startOfWeek - 7 * day) return { id: "last-week", label: "Last week" };
+		if (time >= new Date(now.getFullYear(), now.getMonth(), 1).getTime()) return { id: "this-month", label: "Earlier this month" };
+		if (time >= new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime()) return { id: "last-month", label: "Last month" };
+
+		const date = new Date(time);
+		return {
+			id: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`,
+			label: date.toLocaleDateString(undefined, { month: "long", year: "numeric" })
+		};
+	}
 
-							const newFile = await this.app.vault.createBinary(filePath, uint8Array);
-							importedCount++;
-							lastImportedFile = newFile;
-						} catch (error) {
-							console.error(`Failed to import file ${file.name}:`, error);
-							new Notice(`Failed to import ${file.name}`);
-						}
-					}
+	private toggleGroupCollapsed(group: PreviewGroup) {
+		// Collapsed groups are remembered per folder
+		if (!this.selectedFolder) return;
+		const folderPath = this.selectedFolder.path;
+		const collapsedGroups = (this.plugin.data.collapsedGroups[folderPath] ?? []).filter(id => id !== group.id);
+		if (!group.collapsed) {
+			collapsedGroups.push(group.id);
+		}
 
-					if (importedCount > 0) {
-						new Notice(`Imported ${importedCount} file${importedCount > 1 ? 's' : ''} to ${this.app.vault.getName()}`);
+		if (collapsedGroups.length > 0) {
+			this.plugin.data.collapsedGroups[folderPath] = collapsedGroups;
+		} else {
+			delete this.plugin.data.collapsedGroups[folderPath];
+		}
+		this.plugin.savePluginData().catch(console.error);
+		this.updateVisibleFiles();
+		this.applyCardTabStop();
+	}
 
-						if (importedCount === 1 && lastImportedFile) {
-							await this.app.workspace.getLeaf(false).openFile(lastImportedFile);
-						}
+	private createGroupHeader(group: PreviewGroup): HTMLElement {
+		const header = createDiv({
+			cls: "ftpreview-group-header" + (group.collapsed ? " ftpreview-group-collapsed" : ""),
+			attr: { role: "button", "aria-expanded": String(!group.collapsed) }
+		});
+		const caret = header.createSpan({ cls: "ftpreview-group-caret" });
+		setIcon(caret, "right-triangle");
+		header.createSpan({ cls: "ftpreview-group-label", text: group.label });
+		header.createSpan({ cls: "ftpreview-group-count", text: String(group.count) });
 
-						this.selectedFolder = root;
-						await Promise.all([
-							this.renderFileTree(),
-							this.renderPreview()
-						]);
-					}
-					return;
-				}
+		header.addEventListener("click", () => this.toggleGroupCollapsed(group));
+		return header;
+	}
 
-				// Handle internal vault file/folder moves
-				const rawDragData = e.dataTransfer?.getData("text/plain");
-				if (!rawDragData) return;
+	private createGalleryLine(files: TFile[]): HTMLElement {
+		// One line of gallery tiles - short last lines keep the full column width
+		const line = createDiv({ cls: "ftpreview-gallery-line" });
+		line.setCssProps({ "grid-template-columns": `repeat(${this.galleryColumns}, minmax(0, 1fr))` });
+		files.forEach(file => {
+			const card = this.createPreviewCard(file);
+			line.appendChild(card);
+			this.renderedCards.set(file.path, card);
+		});
+		return line;
+	}
 
-				const draggedPath = this.extractFilePathFromDragData(rawDragData);
-				if (!draggedPath) return;
+	private getRowKey(row: PreviewRow): string {
+		// Vault paths never start with a slash, so group and grid line keys can't collide with card keys
+		if (row.type === "card") return row.file.path;
+		if (row.type === "grid") return `/grid/${row.files[0].path}`;
+		return `/group/${row.group.id}`;
+	}
 
-				const draggedItem = this.app.vault.getAbstractFileByPath(draggedPath);
-				if (!draggedItem) return;
+	private getRowOffsets(): number[] {
+		// Top offset of each row, plus the total height as the last entry
+		const offsets: number[] = [0];
+		this.previewRows.forEach((row, index) => {
+			const estimatedHeight = row.type === "group" ? DEFAULT_GROUP_HEADER_HEIGHT : this.estimatedCardHeight;
+			offsets.push(offsets[index] + (this.rowHeights.get(this.getRowKey(row)) ?? estimatedHeight));
+		});
+		return offsets;
+	}
 
-				const isFolder = e.dataTransfer?.getData("application/x-obsidian-folder") === "true";
+	private renderPreviewWindow() {
+		if (!this.previewList) return;
 
-				// Handle folder drops
-				if (isFolder && draggedItem instanceof TFolder) {
-					// Don't move if already in root
-					if (draggedItem.parent === root) {
-						new Notice("Folder is already in this location");
-						return;
-					}
+		for (let pass = 0; pass < 2; pass++) {
+			const offsets = this.getRowOffsets();
+			const viewTop = this.previewContent.scrollTop - PREVIEW_OVERSCAN_PX;
+			const viewBottom = this.previewContent.scrollTop + this.previewContent.clientHeight + PREVIEW_OVERSCAN_PX;
 
-					const newPath = this.getNewPath(root, draggedItem.name);
-					try {
-						await this.app.vault.rename(draggedItem, newPath);
-					} catch (error) {
-						console.error("Failed to move folder:", error);
-						new Notice("Failed to move folder");
-					}
+			// Find the range of rows that overlap the visible area
+			let first = 0;
+			while (first < this.previewRows.length && offsets[first + 1] < viewTop) {
+				first++;
+			}
+			let last = first;
+			while (last < this.previewRows.length && offsets[last] < viewBottom) {
+				last++;
+			}
+			const windowRows = this.previewRows.slice(first, last);
+			const windowKeys = new Set(windowRows.map(row => this.getRowKey(row)));
+
+			// Remove rows that scrolled out of the window, along with the cards in grid lines
+			this.renderedRows.forEach((rowEl, key) => {
+				if (!windowKeys.has(key)) {
+					rowEl.remove();
+					this.renderedRows.delete(key);
+					const cardPaths = key.startsWith("/grid/")
+						? rowEl.findAll(".ftpreview-preview-item").map(card => card.getAttribute("data-file-path") ?? "")
+						: [key];
+					cardPaths.forEach(path => {
+						this.releaseCardRender(path);
+						this.renderedCards.delete(path);
+					});
 				}
-				// Handle file drops
-				else if (draggedItem instanceof TFile) {
-					// Don't move if already in root
-					if (draggedItem.parent === root) {
-						return;
+			});
+
+			// Add new rows in order, keeping existing ones in place so focus isn't lost
+			const lastFile = this.visibleFiles[this.visibleFiles.length - 1];
+			let previousRow: HTMLElement | null = null;
+			for (const row of windowRows) {
+				const key = this.getRowKey(row);
+				let rowEl = this.renderedRows.get(key);
+				if (!rowEl) {
+					if (row.type === "card") {
+						rowEl = this.createPreviewCard(row.file);
+						this.renderedCards.set(key, rowEl);
+					} else if (row.type === "grid") {
+						rowEl = this.createGalleryLine(row.files);
+					} else {
+						rowEl = this.createGroupHeader(row.group);
+					}
+					this.renderedRows.set(key, rowEl);
+					if (previousRow) {
+						previousRow.after(rowEl);
+					} else {
+						this.previewListCards.prepend(rowEl);
 					}
+				}
+				if (row.type === "card") {
+					rowEl.toggleClass("ftpreview-preview-item-last", row.file === lastFile);
+				}
+				previousRow = rowEl;
+			}
 
-					const newPath = this.getNewPath(root, draggedItem.name);
-					try {
-						await this.app.vault.rename(draggedItem, newPath);
-					} catch (error) {
-						console.error("Failed to move file:", error);
-						new Notice("Failed to move file");
+			this.previewListTopSpacer.setCssProps({ height: `${offsets[first]}px` });
+			this.previewListBottomSpacer.setCssProps({ height: `${offsets[offsets.length - 1] - offsets[last]}px` });
+
+			// Measure rendered rows, and lay out once more if any estimate was wrong
+			let heightsChanged = false;
+			this.renderedRows.forEach((rowEl, key) => {
+				const height = rowEl.offsetHeight;
+				if (height > 0 && this.rowHeights.get(key) !== height) {
+					this.rowHeights.set(key, height);
+					if (!key.startsWith("/group/")) {
+						this.estimatedCardHeight = height;
 					}
+					heightsChanged = true;
 				}
-			};
+			});
+			if (!heightsChanged) break;
+		}
 
-			handleDrop().catch(console.error);
-		});
+		this.applyCardTabStop();
+	}
 
-		// Create content container for child folders
-		const folderContent = folderEl.createDiv({ cls: "ftpreview-folder-content" });
-		// Not collapsed by default
+	private scrollCardIntoView(file: TFile) {
+		const index = this.previewRows.findIndex(row => (row.type === "card" && row.file === file) || (row.type === "grid" && row.files.includes(file)));
+		if (index === -1) return;
 
-		// Render all child folders inside (starting at level 1)
-		await this.renderFolder(root, folderContent, 1);
+		const offsets = this.getRowOffsets();
+		const scrollTop = this.previewContent.scrollTop;
+		const viewHeight = this.previewContent.clientHeight;
+
+		if (offsets[index] < scrollTop) {
+			this.previewContent.scrollTop = offsets[index];
+		} else if (offsets[index + 1] > scrollTop + viewHeight) {
+			this.previewContent.scrollTop = offsets[index + 1] - viewHeight;
+		}
+		this.renderPreviewWindow();
 	}
 
-	private async renderFolder(folder: TFolder, container: HTMLElement, level: number) {
-		// Get only folders, sorted alphabetically
-		const folders = folder.children
-			.filter((item): item is TFolder => item instanceof TFolder)
-			.sort((a, b) => a.name.localeCompare(b.name));
+	private requestPreviewText(file: TFile) {
+		// Queue a file for reading, unless its text is already cached or queued
+		if (this.getCachedPreviewText(file) !== undefined || this.pendingTextLoads.has(file.path)) return;
+		this.pendingTextLoads.set(file.path, file);
+		// Start after the current render so new cards are registered as rendered first
+		Promise.resolve().then(() => this.processTextLoads()).catch(console.error);
+	}
 
-		for (const item of folders) {
-			const isSelected = this.selectedFolder === item;
-			const hasSubfolders = item.children.some(child => child instanceof TFolder);
-			const isCollapsed = this.collapsedFolders.has(item.path);
+	private processTextLoads() {
+		// Read queued files with bounded concurrency
+		for (const [path, file] of this.pendingTextLoads) {
+			if (this.activeTextLoads >= MAX_CONCURRENT_TEXT_LOADS) break;
+			this.pendingTextLoads.delete(path);
+
+			// Skip cards that scrolled away, unless the filter needs every file's text
+			if (!this.renderedCards.has(path) && !this.isPreviewFilterActive()) continue;
+
+			this.activeTextLoads++;
+			this.loadPreviewText(file)
+				.then(
+					(previewText) => this.showLoadedPreviewText(file, previewText),
+					(error) => console.error(`Failed to read ${file.path}:`, error)
+				)
+				.then(() => {
+					this.activeTextLoads--;
+					this.processTextLoads();
+				})
+				.catch(console.error);
+		}
+	}
 
-			const folderEl = container.createDiv({ cls: "ftpreview-folder-item" });
-			folderEl.setCssProps({ 'padding-left': `calc(var(--ftpreview-folder-indent) * ${level})` });
+	private async loadPreviewText(file: TFile): Promise<string> {
+		const content = await this.app.vault.cachedRead(file);
+		const previewText = this.extractPreviewText(content, file);
 
-			const folderHeader = folderEl.createDiv({
-				cls: "ftpreview-folder-header" + (isSelected ? " ftpreview-selected" : "")
-			});
+		// Cache the preview text for filtering, smart refresh detection and later visits
+		this.plugin.previewCache.set(file, this.getPreviewSettingsKey(), previewText, countWords(splitFrontmatter(content).body));
+		return previewText;
+	}
 
-			// Add caret if folder has subfolders
-			if (hasSubfolders) {
-				const caret = folderHeader.createSpan({ cls: "ftpreview-folder-caret" });
-				// Use Obsidian's setIcon helper
-				setIcon(caret, "right-triangle");
+	private getCachedPreviewText(file: TFile): string | undefined {
+		return this.plugin.previewCache.get(file, this.getPreviewSettingsKey());
+	}
 
-				// Apply collapsed state to caret
-				if (isCollapsed) {
-					caret.addClass("ftpreview-collapsed");
-				}
+	private getPreviewSettingsKey(): string {
+		// Settings that change the extracted preview text - cached text from other settings is stale
+		const { removeLinkBrackets, renderMarkdownPreviews, previewSource, previewSourceProperties, previewSourceHeading } = this.plugin.data;
+		return [
+			this.viewSettings.previewLines,
+			removeLinkBrackets,
+			renderMarkdownPreviews,
+			previewSource,
+			previewSourceProperties.join(","),
+			previewSourceHeading
+		].join("|");
+	}
 
-				// Toggle collapse on caret click
-				caret.addEventListener("click", (e) => {
-					e.stopPropagation();
-					const willBeCollapsed = !folderContent.hasClass("ftpreview-collapsed");
-					folderContent.toggleClass("ftpreview-collapsed", willBeCollapsed);
-					caret.toggleClass("ftpreview-collapsed", willBeCollapsed);
+	private showLoadedPreviewText(file: TFile, previewText: string) {
+		const card = this.renderedCards.get(file.path);
+		const previewLines = card?.querySelector<HTMLElement>(".ftpreview-preview-lines");
+		if (previewLines) {
+			this.fillPreviewLines(previewLines, file, previewText);
+		}
+		const footer = card?.querySelector<HTMLElement>(".ftpreview-card-footer");
+		if (footer) {
+			this.fillCardFooter(footer, file);
+		}
 
-					// Update collapsed state and save
-					if (willBeCollapsed) {
-						this.collapsedFolders.add(item.path);
-					} else {
-						this.collapsedFolders.delete(item.path);
-					}
-					this.plugin.data.collapsedFolders = Array.from(this.collapsedFolders);
-					this.plugin.savePluginData().catch(console.error);
-				});
-			} else {
-				// Add spacer for alignment when no caret
-				folderHeader.createSpan({ cls: "ftpreview-folder-caret-spacer" });
-			}
-
-			// Determine folder icon based on preference
-			const iconStyle = this.plugin.data.folderIconStyle;
-			const folderNameSpan = folderHeader.createSpan({ cls: "ftpreview-folder-name" });
-
-			if (iconStyle === "none") {
-				folderNameSpan.setText(item.name);
-			} else if (iconStyle === "custom") {
-				// Try to get custom icon from folder properties
-				const customIcon = this.getFolderIcon(item);
-				// Default icon: TiFolder for folders without subfolders, LiFolders for folders with subfolders
-				const defaultIcon = hasSubfolders ? "LiFolders" : "TiFolder";
-				const iconToRender = customIcon ? customIcon.value : defaultIcon;
-
-				if (customIcon?.type === 'emoji') {
-					// Simple emoji - just add as text
-					folderNameSpan.setText(customIcon.value + " " + item.name);
-				} else {
-					// Icon identifier - use Iconize plugin to render it
-					try {
-						const iconFolderPlugin = (this.app as App & { plugins?: { plugins?: Record<string, IconizePlugin> } }).plugins?.plugins?.['obsidian-icon-folder'];
+		// A file that now matches the filter needs to be added to the list
+		if (this.isPreviewFilterActive() && !this.filteredFiles.includes(file) && this.matchesPreviewFilter(file)) {
+			this.scheduleFilterRefresh();
+		}
+	}
 
-						if (iconFolderPlugin?.api?.getIconByName) {
-							// Try to get the icon element from Iconize
-							const iconData = iconFolderPlugin.api.getIconByName(iconToRender);
+	private hasThumbnail(file: TFile): boolean {
+		// File types with a rendered thumbnail in place of the placeholder icon
+		const ext = file.extension.toLowerCase();
+		return ["pdf", "canvas"].includes(ext) || AUDIO_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext);
+	}
 
-							if (iconData && iconData.svgElement) {
-								// Create a container for the icon
-								const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
-								// Use DOM parser to safely insert SVG
-								const parser = new DOMParser();
-								const doc = parser.parseFromString(iconData.svgElement, 'image/svg+xml');
-								const svgEl = doc.documentElement;
-								if (svgEl && !svgEl.querySelector('parsererror')) {
-									iconContainer.appendChild(svgEl);
-								}
+	private isPlayableMedia(file: TFile): boolean {
+		const ext = file.extension.toLowerCase();
+		return AUDIO_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext);
+	}
 
-								// Add the folder name after the icon
-								folderNameSpan.appendText(" " + item.name);
-							} else {
-								// If icon not found, try default folder icon based on collapsed state
-								const fallbackIcon = iconFolderPlugin.api.getIconByName(defaultIcon);
-								if (fallbackIcon && fallbackIcon.svgElement) {
-									const iconContainer = folderNameSpan.createSpan({ cls: "ftpreview-icon-container" });
-									// Use DOM parser to safely insert SVG
-									const parser = new DOMParser();
-									const doc = parser.parseFromString(fallbackIcon.svgElement, 'image/svg+xml');
-									const svgEl = doc.documentElement;
-									if (svgEl && !svgEl.querySelector('parsererror')) {
-										iconContainer.appendChild(svgEl);
-									}
-									folderNameSpan.appendText(" " + item.name);
-								} else {
-									// Last resort - no icon
-									folderNameSpan.setText(item.name);
-								}
-							}
-						} else {
-							folderNameSpan.setText(item.name);
-						}
-					} catch (error) {
-						console.error("Error rendering icon:", error);
-						folderNameSpan.setText(item.name);
+	private requestThumbnail(file: TFile) {
+		// Queue a file for thumbnail rendering, unless it is already cached or queued
+		if (this.plugin.thumbnailCache.get(file) || this.pendingThumbnailLoads.has(file.path)) return;
+		this.pendingThumbnailLoads.set(file.path, file);
+		Promise.resolve().then(() => this.processThumbnailLoads()).catch(console.error);
+	}
+
+	private processThumbnailLoads() {
+		// Render queued thumbnails one at a time so large folders don't block the pane
+		for (const [path, file] of this.pendingThumbnailLoads) {
+			if (this.activeThumbnailLoads >= MAX_CONCURRENT_THUMBNAIL_LOADS) break;
+			this.pendingThumbnailLoads.delete(path);
+
+			// Skip cards that scrolled away - they are queued again when shown
+			if (!this.renderedCards.has(path)) continue;
+
+			this.activeThumbnailLoads++;
+			this.renderThumbnail(file)
+				.catch((error) => {
+					// Cache the failure so a broken file isn't retried on every render
+					console.error(`Failed to render thumbnail for ${file.path}:`, error);
+					this.plugin.thumbnailCache.set(file, "", "");
+				})
+				.then(() => {
+					if (this.renderedCards.has(file.path)) {
+						return this.updateSinglePreviewCard(file);
 					}
-				}
-			} else if (iconStyle === "folder") {
-				folderNameSpan.setText("📁 " + item.name);
-			}
+				})
+				.then(() => {
+					this.activeThumbnailLoads--;
+					this.processThumbnailLoads();
+				})
+				.catch(console.error);
+		}
+	}
 
-			const folderContent = container.createDiv({ cls: "ftpreview-folder-content" });
+	private renderThumbnail(file: TFile): Promise<void> {
+		const ext = file.extension.toLowerCase();
+		if (ext === "canvas") return this.renderCanvasThumbnail(file);
+		if (VIDEO_EXTENSIONS.includes(ext)) return this.renderVideoThumbnail(file);
+		if (AUDIO_EXTENSIONS.includes(ext)) return this.renderAudioThumbnail(file);
+		return this.renderPdfThumbnail(file);
+	}
 
-			// Apply collapsed state to content
-			if (isCollapsed) {
-				folderContent.addClass("ftpreview-collapsed");
-			}
+	private async renderPdfThumbnail(file: TFile) {
+		// Draw the first page with the PDF.js build bundled with Obsidian
+		const pdfjs = await loadPdfJs();
+		const data = await this.app.vault.readBinary(file);
+		const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+		try {
+			const page = await pdf.getPage(1);
+			const baseViewport = page.getViewport({ scale: 1 });
+			const scale = (THUMBNAIL_RENDER_HEIGHT_PX * window.devicePixelRatio) / baseViewport.height;
+			const viewport = page.getViewport({ scale });
+
+			const canvas = createEl("canvas");
+			canvas.width = Math.ceil(viewport.width);
+			canvas.height = Math.ceil(viewport.height);
+			const context = canvas.getContext("2d");
+			if (!context) throw new Error("Canvas 2D context unavailable");
+
+			// Pages with a transparent background would show through as black in a JPEG
+			context.fillStyle = "#ffffff";
+			context.fillRect(0, 0, canvas.width, canvas.height);
+			await page.render({ canvasContext: context, viewport }).promise;
+
+			const pageCount: number = pdf.numPages;
+			this.plugin.thumbnailCache.set(
+				file,
+				canvas.toDataURL("image/jpeg", 0.8),
+				pageCount === 1 ? "1 page" : `${pageCount} pages`
+			);
+		} finally {
+			await pdf.destroy();
+		}
+	}
 
-			// Make folder draggable (only on non-touch devices)
-			if (!this.isTouchDevice) {
-				folderHeader.setAttribute("draggable", "true");
+	private async renderCanvasThumbnail(file: TFile) {
+		// Draw a miniature of the canvas nodes and edges as an SVG image
+		const content = await this.app.vault.cachedRead(file);
+		const canvas = (content.trim() ? JSON.parse(content) : {}) as Partial<CanvasData>;
+		const nodes = Array.isArray(canvas.nodes) ? canvas.nodes : [];
+		const edges = Array.isArray(canvas.edges) ? canvas.edges : [];
+
+		// Summarize the card count and linked notes for the label
+		const cardCount = nodes.filter(node => node.type !== "group").length;
+		const linkedNotes = Array.from(new Set(
+			nodes
+				.filter((node): node is CanvasFileData => node.type === "file" && node.file.toLowerCase().endsWith(".md"))
+				.map(node => node.file.split("/").pop()?.replace(/\.md$/i, "") ?? "")
+		));
+		let detail = cardCount === 0 ? "empty" : cardCount === 1 ? "1 card" : `${cardCount} cards`;
+		if (linkedNotes.length > 0) {
+			detail += ` · links ${linkedNotes.slice(0, CANVAS_LINKED_NOTES_SHOWN).join(", ")}`;
+			if (linkedNotes.length > CANVAS_LINKED_NOTES_SHOWN) {
+				detail += ` and ${linkedNotes.length - CANVAS_LINKED_NOTES_SHOWN} more`;
 			}
-			folderHeader.addEventListener("dragstart", (e) => {
-				e.stopPropagation();
-				e.dataTransfer?.setData("text/plain", item.path);
-				e.dataTransfer?.setData("application/x-obsidian-folder", "true");
-				if (e.dataTransfer) {
-					e.dataTransfer.effectAllowed = "move";
-				}
+		}
 
-				// Create custom drag ghost - just folder name in a pill
-				this.dragGhost = document.body.createDiv({ cls: "ftpreview-drag-ghost" });
-				this.dragGhost.setText(item.name);
-
-				// Get the computed accent color and make it 50% transparent
-				const accentColor = getComputedStyle(document.body).getPropertyValue('--interactive-accent').trim();
-				this.dragGhost.setCssProps({
-					position: "fixed",
-					left: "-9999px",
-					top: "0",
-					backgroundColor: `color-mix(in srgb, ${accentColor} 50%, transparent)`,
-					color: getComputedStyle(document.body).getPropertyValue('--text-on-accent').trim()
-				});
+		if (nodes.length === 0) {
+			this.plugin.thumbnailCache.set(file, "", detail);
+			return;
+		}
 
-				// Set the custom drag image
-				if (e.dataTransfer) {
-					e.dataTransfer.setDragImage(this.dragGhost, 50, 15);
-				}
+		// Fit the view box around every node
+		const minX = Math.min(...nodes.map(node => node.x));
+		const minY = Math.min(...nodes.map(node => node.y));
+		const maxX = Math.max(...nodes.map(node => node.x + node.width));
+		const maxY = Math.max(...nodes.map(node => node.y + node.height));
+		const padding = Math.max(maxX - minX, maxY - minY) * 0.02;
+		const viewWidth = maxX - minX + padding * 2;
+		const viewHeight = maxY - minY + padding * 2;
+
+		// Sizes in canvas units that stay legible once the image is scaled down
+		const fontSize = Math.max(viewWidth, viewHeight) / 16;
+		const strokeWidth = Math.max(viewWidth, viewHeight) / 200;
+
+		// Colors are baked into the image, so read them from the current theme
+		const style = getComputedStyle(document.body);
+		const themeColor = (variable: string) => style.getPropertyValue(variable).trim();
+		const resolveColor = (color: string | undefined, fallback: string) => {
+			if (!color) return fallback;
+			const preset = CANVAS_COLOR_VARIABLES[parseInt(color, 10) - 1];
+			return preset ? themeColor(preset) || fallback : color;
+		};
+		const mutedColor = themeColor("--text-muted") || "#888888";
+		const textColor = themeColor("--text-normal") || "#222222";
+		const fontFamily = themeColor("--font-interface") || "sans-serif";
+
+		const svg = createSvg("svg", {
+			attr: {
+				xmlns: "http://www.w3.org/2000/svg",
+				viewBox: `${minX - padding} ${minY - padding} ${viewWidth} ${viewHeight}`,
+				width: Math.round(THUMBNAIL_RENDER_HEIGHT_PX * viewWidth / viewHeight),
+				height: THUMBNAIL_RENDER_HEIGHT_PX
+			}
+		});
 
-				folderHeader.addClass("ftpreview-dragging");
+		// Edges first so nodes are drawn over them
+		const nodesById = new Map(nodes.map(node => [node.id, node]));
+		const sidePoint = (node: AllCanvasNodeData, side: NodeSide | undefined): [number, number] => {
+			switch (side) {
+				case "top": return [node.x + node.width / 2, node.y];
+				case "right": return [node.x + node.width, node.y + node.height / 2];
+				case "bottom": return [node.x + node.width / 2, node.y + node.height];
+				case "left": return [node.x, node.y + node.height / 2];
+				default: return [node.x + node.width / 2, node.y + node.height / 2];
+			}
+		};
+		edges.forEach(edge => {
+			const fromNode = nodesById.get(edge.fromNode);
+			const toNode = nodesById.get(edge.toNode);
+			if (!fromNode || !toNode) return;
+			const [x1, y1] = sidePoint(fromNode, edge.fromSide);
+			const [x2, y2] = sidePoint(toNode, edge.toSide);
+			svg.createSvg("line", {
+				attr: { x1, y1, x2, y2, stroke: resolveColor(edge.color, mutedColor), "stroke-width": strokeWidth, opacity: 0.7 }
 			});
+		});
 
-			folderHeader.addEventListener("dragend", () => {
-				folderHeader.removeClass("ftpreview-dragging");
-
-				// Clean up the drag ghost
-				if (this.dragGhost) {
-					this.dragGhost.remove();
-					this.dragGhost = null;
+		// Groups behind cards, then cards with a text snippet where one fits
+		const sortedNodes = [...nodes].sort((a, b) => (a.type === "group" ? 0 : 1) - (b.type === "group" ? 0 : 1));
+		sortedNodes.forEach(node => {
+			const color = resolveColor(node.color, mutedColor);
+			svg.createSvg("rect", {
+				attr: {
+					x: node.x,
+					y: node.y,
+					width: node.width,
+					height: node.height,
+					rx: strokeWidth * 3,
+					fill: color,
+					"fill-opacity": node.type === "group" ? 0.05 : 0.15,
+					stroke: color,
+					"stroke-width": strokeWidth
 				}
 			});
 
-			// Click on folder name to select (but not collapse)
-			folderHeader.addEventListener("click", () => {
-				this.selectedFolder = item;
-				Promise.all([
-					this.renderFileTree(),
-					this.renderPreview()
-				]).catch(console.error);
-			});
+			const snippet = this.getCanvasNodeSnippet(node);
+			const lineHeight = fontSize * 1.2;
+			const maxLines = Math.floor((node.height - fontSize * 1.5) / lineHeight) + 1;
+			const maxChars = Math.floor((node.width - fontSize) / (fontSize * 0.55));
+			if (!snippet || maxLines < 1 || maxChars < 4) return;
 
-			// Right-click context menu for folders
-			folderHeader.addEventListener("contextmenu", (e) => {
-				e.preventDefault();
-				const menu = new Menu();
-				this.buildFolderContextMenu(menu, item);
-				menu.showAtMouseEvent(e);
+			const text = svg.createSvg("text", {
+				attr: { "font-size": fontSize, "font-family": fontFamily, fill: textColor }
 			});
+			this.wrapSnippet(snippet, maxChars, node.type === "group" ? 1 : maxLines).forEach((line, index) => {
+				text.createSvg("tspan", {
+					attr: { x: node.x + fontSize * 0.5, y: node.y + fontSize * 1.25 + lineHeight * index }
+				}, (tspan) => tspan.textContent = line);
+			});
+		});
 
-			// Touch handlers for folders - distinguish tap (select) from hold (menu) from drag
-			let folderTouchStartTime = 0;
-			let folderTouchTimer: number | null = null;
-			let folderMenuShown = false;
+		const dataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svg))}`;
+		this.plugin.thumbnailCache.set(file, dataUrl, detail);
+	}
 
-			folderHeader.addEventListener("touchstart", (e) => {
-				folderTouchStartTime = Date.now();
-				folderMenuShown = false;
+	private async renderVideoThumbnail(file: TFile) {
+		// Capture a poster frame a little way in, past any black lead-in
+		const video = createEl("video");
+		video.muted = true;
+		video.preload = "auto";
+		try {
+			video.src = this.app.vault.getResourcePath(file);
+			await waitForMediaEvent(video, "loadeddata");
+			const duration = video.duration;
+			video.currentTime = isFinite(duration) ? Math.min(duration * 0.1, 5) : 0;
+			await waitForMediaEvent(video, "seeked");
+
+			const canvas = createEl("canvas");
+			canvas.height = Math.round(THUMBNAIL_RENDER_HEIGHT_PX * window.devicePixelRatio);
+			canvas.width = Math.round(canvas.height * video.videoWidth / (video.videoHeight || 1));
+			const context = canvas.getContext("2d");
+			if (!context) throw new Error("Canvas 2D context unavailable");
+			context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+			this.plugin.thumbnailCache.set(file, canvas.toDataURL("image/jpeg", 0.8), isFinite(duration) ? formatDuration(duration) : "");
+		} finally {
+			releaseMediaElement(video);
+		}
+	}
 
-				// Set a timer for 500ms - if it completes, show context menu
-				folderTouchTimer = window.setTimeout(() => {
-					folderMenuShown = true;
-					folderTouchTimer = null;
+	private async renderAudioThumbnail(file: TFile) {
+		// Duration from the media element, plus a waveform sketch for files short enough to decode
+		const audio = createEl("audio");
+		audio.preload = "metadata";
+		let duration = NaN;
+		try {
+			audio.src = this.app.vault.getResourcePath(file);
+			await waitForMediaEvent(audio, "loadedmetadata");
+			duration = audio.duration;
+		} finally {
+			releaseMediaElement(audio);
+		}
 
-					// Show context menu after long press
-					const menu = new Menu();
-					this.buildFolderContextMenu(menu, item);
+		let dataUrl = "";
+		const estimatedDecodedBytes = duration * 48000 * 2 * 4;
+		if (isFinite(duration) && estimatedDecodedBytes <= AUDIO_WAVEFORM_MAX_DECODED_BYTES) {
+			try {
+				// An offline context resamples while decoding, so the kept buffer is small
+				const audioContext = new OfflineAudioContext(1, 1, AUDIO_WAVEFORM_SAMPLE_RATE);
+				const buffer = await audioContext.decodeAudioData(await this.app.vault.readBinary(file));
+				dataUrl = this.drawWaveform(buffer);
+			} catch (error) {
+				// Formats the browser can't decode still get their duration
+				console.error(`Failed to decode ${file.path}:`, error);
+			}
+		}
 
-					// Show menu at touch position
-					const touch = (e as TouchEvent).touches[0];
-					if (touch) {
-						menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
-					}
-				}, 500);
-			});
+		this.plugin.thumbnailCache.set(file, dataUrl, isFinite(duration) ? formatDuration(duration) : "");
+	}
 
-			folderHeader.addEventListener("touchmove", (e) => {
-				// If finger moves, user is dragging - cancel the menu timer
-				if (folderTouchTimer) {
-					window.clearTimeout(folderTouchTimer);
-					folderTouchTimer = null;
-				}
-			});
+	private drawWaveform(buffer: AudioBuffer): string {
+		// Peak level per bar from the first channel, drawn mirrored around the middle
+		const samples = buffer.getChannelData(0);
+		const samplesPerBar = Math.max(1, Math.floor(samples.length / AUDIO_WAVEFORM_BARS));
+		const peaks: number[] = [];
+		for (let bar = 0; bar < AUDIO_WAVEFORM_BARS; bar++) {
+			let peak = 0;
+			const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+			for (let i = bar * samplesPerBar; i < end; i++) {
+				const level = Math.abs(samples[i]);
+				if (level > peak) peak = level;
+			}
+			peaks.push(peak);
+		}
+		const maxPeak = Math.max(...peaks) || 1;
+
+		const canvas = createEl("canvas");
+		canvas.height = Math.round(THUMBNAIL_RENDER_HEIGHT_PX * window.devicePixelRatio);
+		canvas.width = canvas.height * 2;
+		const context = canvas.getContext("2d");
+		if (!context) return "";
+
+		// Colors are baked into the image, so read them from the current theme
+		context.fillStyle = getComputedStyle(document.body).getPropertyValue("--text-muted").trim() || "#888888";
+		const barWidth = canvas.width / AUDIO_WAVEFORM_BARS;
+		peaks.forEach((peak, bar) => {
+			const height = Math.max(2, (peak / maxPeak) * canvas.height * 0.9);
+			context.fillRect(bar * barWidth + barWidth * 0.15, (canvas.height - height) / 2, barWidth * 0.7, height);
+		});
+		return canvas.toDataURL("image/png");
+	}
 
-			folderHeader.addEventListener("touchend", (e) => {
-				// Clear the timer if it's still running
-				if (folderTouchTimer) {
-					window.clearTimeout(folderTouchTimer);
-					folderTouchTimer = null;
-				}
+	private getCanvasNodeSnippet(node: AllCanvasNodeData): string {
+		// Text shown inside a canvas miniature node - note text, file name, link, or group label
+		switch (node.type) {
+			case "text": return this.cleanPreviewText(node.text).replace(/\s+/g, " ").trim();
+			case "file": return node.file.split("/").pop()?.replace(/\.md$/i, "") ?? "";
+			case "link": return node.url;
+			case "group": return node.label ?? "";
+			default: return "";
+		}
+	}
 
-				// If touch was less than 500ms and menu wasn't shown, allow folder selection
-				const touchDuration = Date.now() - folderTouchStartTime;
-				if (touchDuration < 500 && !folderMenuShown) {
-					// Let the default click behavior happen (folder selection)
-					// Don't prevent default here - allow normal folder selection
-				} else if (folderMenuShown) {
-					// Menu was shown, prevent any other actions
-					e.preventDefault();
-				}
-			});
+	private wrapSnippet(snippet: string, maxChars: number, maxLines: number): string[] {
+		// Break text into lines by word, ending with an ellipsis when it doesn't all fit
+		const lines: string[] = [];
+		let current = "";
+		for (const word of snippet.split(" ")) {
+			const candidate = current ? `${current} ${word}` : word;
+			if (candidate.length <= maxChars) {
+				current = candidate;
+				continue;
+			}
+			if (current) lines.push(current);
+			current = word.length > maxChars ? word.substring(0, maxChars - 1) + "…" : word;
+			if (lines.length === maxLines) break;
+		}
+		if (lines.length < maxLines && current) lines.push(current);
+		if (lines.length > maxLines) lines.length = maxLines;
 
-			folderHeader.addEventListener("touchcancel", () => {
-				// Clean up timer if touch is cancelled
-				if (folderTouchTimer) {
-					window.clearTimeout(folderTouchTimer);
-					folderTouchTimer = null;
-				}
-			});
+		const shownLength = lines.join(" ").length;
+		if (shownLength < snippet.length && lines.length > 0 && !lines[lines.length - 1].endsWith("…")) {
+			const last = lines[lines.length - 1];
+			lines[lines.length - 1] = (last.length >= maxChars ? last.substring(0, maxChars - 1) : last) + "…";
+		}
+		return lines;
+	}
 
-			// Drag and drop handlers - make folder a drop zone
-			folderHeader.addEventListener("dragover", (e) => {
-				e.preventDefault();
-				e.stopPropagation();
-				if (e.dataTransfer) {
-					// Check if it's an external file drop or internal move
-					const isExternalFiles = e.dataTransfer.types.includes('Files');
-					e.dataTransfer.dropEffect = isExternalFiles ? "copy" : "move";
-				}
-				folderHeader.addClass("ftpreview-drop-target");
-			});
+	private scheduleFilterRefresh() {
+		// Batch list updates while files are still being read for the filter
+		if (this.filterRefreshTimer !== null) return;
+		this.filterRefreshTimer = window.setTimeout(() => {
+			this.filterRefreshTimer = null;
+			this.updateVisibleFiles();
+		}, 200);
+	}
 
-			folderHeader.addEventListener("dragleave", (e) => {
-				e.preventDefault();
-				e.stopPropagation();
-				folderHeader.removeClass("ftpreview-drop-target");
+	private isPreviewFilterActive(): boolean {
+		// True when matching needs preview text - tag and property filters only need the metadata cache
+		return this.previewFilter.trim().length > 0 && !this.getMetadataFilter();
+	}
+
+	private getMetadataFilter(): MetadataFilter | null {
+		// Same syntax as Obsidian search: "#tag" or "[property:value]"
+		const query = this.previewFilter.trim();
+		const tagMatch = query.match(/^#([^\s#]+)$/);
+		if (tagMatch) {
+			return { type: "tag", tag: tagMatch[1].toLowerCase() };
+		}
+		const propertyMatch = query.match(/^\[([^:\]]+):\s*([^\]]*)\]$/);
+		if (propertyMatch) {
+			return { type: "property", key: propertyMatch[1].trim(), value: propertyMatch[2].trim().toLowerCase() };
+		}
+		return null;
+	}
+
+	private getFileTags(file: TFile): string[] {
+		// Inline and frontmatter tags, without the leading "#" and without duplicates
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? getAllTags(cache) ?? [] : [];
+		return Array.from(new Set(tags.map(tag => tag.replace(/^#/, ""))));
+	}
+
+	private getPropertyValues(file: TFile, key: string): string[] {
+		// A frontmatter property as display strings - lists give one string per item
+		const value: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+		const values: unknown[] = Array.isArray(value) ? value : [value];
+		return values
+			.filter(item => item !== null && item !== undefined && item !== "" && typeof item !== "object")
+			.map(item => String(item));
+	}
+
+	private matchesMetadataFilter(file: TFile, filter: MetadataFilter): boolean {
+		if (filter.type === "tag") {
+			// A parent tag also matches its nested tags
+			return this.getFileTags(file).some(tag => {
+				const lowerTag = tag.toLowerCase();
+				return lowerTag === filter.tag || lowerTag.startsWith(filter.tag + "/");
 			});
+		}
+		return this.getPropertyValues(file, filter.key).some(value => value.toLowerCase() === filter.value);
+	}
 
-			folderHeader.addEventListener("drop", (e) => {
-				e.preventDefault();
-				e.stopPropagation();
-				folderHeader.removeClass("ftpreview-drop-target");
-
-				const handleDrop = async () => {
-					// Check if this is an external file drop (from OS)
-					const externalFiles = e.dataTransfer?.files;
-					if (externalFiles && externalFiles.length > 0) {
-						// Handle external file imports
-						let importedCount = 0;
-						let lastImportedFile: TFile | null = null;
-
-						for (let i = 0; i < externalFiles.length; i++) {
-							const file = externalFiles[i];
-							try {
-								// Read the file data
-								const arrayBuffer = await file.arrayBuffer();
-								const uint8Array = new Uint8Array(arrayBuffer);
-
-								// Determine the file path in the vault
-								let fileName = file.name;
-								let filePath = this.getNewPath(item, fileName);
-
-								// Handle naming conflicts
-								let counter = 1;
-								const baseName = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-								const extension = fileName.substring(fileName.lastIndexOf('.')) || '';
-
-								while (await this.app.vault.adapter.exists(filePath)) {
-									fileName = `${baseName} ${counter}${extension}`;
-									filePath = this.getNewPath(item, fileName);
-									counter++;
-								}
+	private setPreviewFilter(query: string) {
+		// Set the filter from a card chip - clicking the chip of the active filter clears it
+		this.previewFilter = this.previewFilter.trim() === query ? "" : query;
+		if (this.previewFilterInput) {
+			this.previewFilterInput.value = this.previewFilter;
+		}
+		this.applyPreviewFilter();
+	}
 
-								// Create the file in the vault
-								const newFile = await this.app.vault.createBinary(filePath, uint8Array);
-								importedCount++;
-								lastImportedFile = newFile;
-							} catch (error) {
-								console.error(`Failed to import file ${file.name}:`, error);
-								new Notice(`Failed to import ${file.name}`);
-							}
-						}
+	private matchesPreviewFilter(file: TFile): boolean {
+		// Folders set to show only notes with open tasks hide everything else
+		if (this.viewSettings.openTasksOnly && !this.hasOpenTasks(file)) {
+			return false;
+		}
+
+		// Match the filter against the filename and the extracted preview text
+		const query = this.previewFilter.trim().toLowerCase();
+		if (!query) {
+			return true;
+		}
+		const metadataFilter = this.getMetadataFilter();
+		if (metadataFilter) {
+			return this.matchesMetadataFilter(file, metadataFilter);
+		}
+		if (file.basename.toLowerCase().includes(query)) {
+			return true;
+		}
+		const previewText = this.getCachedPreviewText(file);
+		return previewText !== undefined && previewText.toLowerCase().includes(query);
+	}
 
-						if (importedCount > 0) {
-							new Notice(`Imported ${importedCount} file${importedCount > 1 ? 's' : ''} to ${item.name}`);
+	private isRenderedPreview(file: TFile): boolean {
+		return this.plugin.data.renderMarkdownPreviews && file.extension === "md";
+	}
 
-							// Open the last imported file if it's a single file
-							if (importedCount === 1 && lastImportedFile) {
-								await this.app.workspace.getLeaf(false).openFile(lastImportedFile);
-							}
+	private fillPreviewLines(previewLines: HTMLElement, file: TFile, previewText: string) {
+		if (!this.isRenderedPreview(file)) {
+			this.setPreviewLinesText(previewLines, previewText);
+			return;
+		}
 
-							// Select the folder and refresh the preview
-							this.selectedFolder = item;
-							await Promise.all([
-								this.renderFileTree(),
-								this.renderPreview()
-							]);
-						}
-						return;
-					}
+		// Each rendered excerpt gets its own component so its render children are unloaded with the card
+		this.releaseCardRender(file.path);
+		previewLines.empty();
+		const component = new Component();
+		this.addChild(component);
+		this.cardRenderComponents.set(file.path, component);
+		MarkdownRenderer.render(this.app, previewText, previewLines, file.path, component).catch(console.error);
+	}
+
+	private releaseCardRender(path: string) {
+		const component = this.cardRenderComponents.get(path);
+		if (component) {
+			this.removeChild(component);
+			this.cardRenderComponents.delete(path);
+		}
+		// Playback started from a card ends with the card
+		this.stopMediaPlayback(path);
+	}
+
+	private releaseAllCardRenders() {
+		this.cardRenderComponents.forEach(component => this.removeChild(component));
+		this.cardRenderComponents.clear();
+		this.stopMediaPlayback();
+	}
+
+	private toggleMediaPlayback(file: TFile, button: HTMLElement, visual: HTMLElement) {
+		// One file plays at a time - video replaces the card's thumbnail while it plays
+		const wasPlaying = this.mediaPlayback?.path === file.path;
+		this.stopMediaPlayback();
+		if (wasPlaying) return;
+
+		const isVideo = VIDEO_EXTENSIONS.includes(file.extension.toLowerCase());
+		const media = createEl(isVideo ? "video" : "audio", { cls: "ftpreview-media-player" });
+		media.src = this.app.vault.getResourcePath(file);
+		if (isVideo) {
+			visual.hide();
+			visual.after(media);
+		}
+		media.addEventListener("ended", () => this.stopMediaPlayback(file.path));
+		this.mediaPlayback = { path: file.path, media, button, visual };
+		setIcon(button, "pause");
+		button.setAttribute("aria-label", "Pause");
+
+		media.play().catch((error) => {
+			console.error(`Failed to play ${file.path}:`, error);
+			new Notice(`Failed to play ${file.name}`);
+			this.stopMediaPlayback(file.path);
+		});
+	}
+
+	private stopMediaPlayback(path?: string) {
+		// Stop playback, optionally only if it belongs to the given file
+		const playback = this.mediaPlayback;
+		if (!playback || (path !== undefined && playback.path !== path)) return;
+
+		this.mediaPlayback = null;
+		releaseMediaElement(playback.media);
+		playback.visual.show();
+		setIcon(playback.button, "play");
+		playback.button.setAttribute("aria-label", "Play");
+	}
+
+	private setPreviewLinesText(previewLines: HTMLElement, previewText: string) {
+		// Set preview text, wrapping any filter matches in highlight spans
+		previewLines.empty();
+		const query = this.previewFilter.trim().toLowerCase();
+		if (!query || this.getMetadataFilter()) {
+			previewLines.setText(previewText);
+			return;
+		}
 
-					// Handle internal vault file/folder moves
-					const rawDragData = e.dataTransfer?.getData("text/plain");
-					if (!rawDragData) return;
+		const lowerText = previewText.toLowerCase();
+		let index = 0;
+		let matchIndex = lowerText.indexOf(query);
+		while (matchIndex !== -1) {
+			previewLines.appendText(previewText.substring(index, matchIndex));
+			previewLines.createSpan({
+				cls: "ftpreview-filter-match",
+				text: previewText.substring(matchIndex, matchIndex + query.length)
+			});
+			index = matchIndex + query.length;
+			matchIndex = lowerText.indexOf(query, index);
+		}
+		previewLines.appendText(previewText.substring(index));
+	}
 
-					const draggedPath = this.extractFilePathFromDragData(rawDragData);
-					if (!draggedPath) return;
+	private applyPreviewFilter() {
+		// Re-filter the file list without re-reading files
+		this.previewContent.scrollTop = 0;
+		this.updateVisibleFiles();
 
-					const draggedItem = this.app.vault.getAbstractFileByPath(draggedPath);
-					if (!draggedItem) return;
+		// Matching on preview text needs the text of every file, not just the rendered ones
+		if (this.isPreviewFilterActive()) {
+			this.previewFiles.forEach((file) => {
+				if (!this.getFileTypeInfo(file)) {
+					this.requestPreviewText(file);
+				}
+			});
+		}
+	}
 
-					const isFolder = e.dataTransfer?.getData("application/x-obsidian-folder") === "true";
+	private updateFilterEmptyState() {
+		// Show a message when the filter hides every card
+		this.previewContent.querySelector('.ftpreview-filter-empty')?.remove();
 
-					// Handle folder drops
-					if (isFolder && draggedItem instanceof TFolder) {
-						// Can't move folder into itself
-						if (draggedItem === item) {
-							new Notice("Cannot move a folder into itself");
-							return;
-						}
+		if (this.previewFiles.length > 0 && this.filteredFiles.length === 0) {
+			this.previewContent.createDiv({
+				text: this.viewSettings.openTasksOnly && !this.previewFilter.trim() ? "No notes with open tasks" : "No files match the filter",
+				cls: "ftpreview-no-selection ftpreview-filter-empty"
+			});
+		}
+	}
 
-						// Can't move folder into one of its descendants
-						if (this.isDescendantOf(item, draggedItem)) {
-							new Notice("Cannot move a folder into one of its subfolders");
-							return;
-						}
+	private getApplicablePresets(folder: TFolder): [string, FolderViewPreset][] {
+		// The folder's own preset, then presets of ancestors that apply to their subfolders, nearest first
+		const presets: [string, FolderViewPreset][] = [];
+		let current: TFolder | null = folder;
+		while (current) {
+			const preset = this.plugin.data.folderPresets[current.path];
+			if (preset && (current === folder || preset.applyToSubfolders)) {
+				presets.push([current.path, preset]);
+			}
+			current = current.parent;
+		}
+		return presets;
+	}
 
-						// Don't move if already in this folder
-						if (draggedItem.parent === item) {
-							new Notice("Folder is already in this location");
-							return;
-						}
+	private getFolderViewSettings(folder: TFolder | null): FolderViewSettings {
+		// Each option comes from the nearest preset that sets it, otherwise from the global settings
+		const presets = folder ? this.getApplicablePresets(folder) : [];
+		const find = <T>(pick: (preset: FolderViewPreset) => T | undefined): T | undefined => {
+			for (const [, preset] of presets) {
+				const value = pick(preset);
+				if (value !== undefined) return value;
+			}
+			return undefined;
+		};
 
-						// Move the folder
-						const newPath = this.getNewPath(item, draggedItem.name);
-						try {
-							await this.app.vault.rename(draggedItem, newPath);
-							// Vault rename event will trigger re-render automatically
-						} catch (error) {
-							console.error("Failed to move folder:", error);
-							new Notice("Failed to move folder");
-						}
-					}
-					// Handle file drops
-					else if (draggedItem instanceof TFile) {
-						// Don't move if already in this folder
-						if (draggedItem.parent === item) {
-							return; // Silent for files as it's obvious
-						}
+		return {
+			sortOrder: find(preset => preset.sortOrder) ?? this.plugin.data.sortOrder,
+			sortProperty: find(preset => preset.sortProperty) ?? this.plugin.data.sortProperty,
+			sortPropertyDescending: find(preset => preset.sortPropertyDescending) ?? this.plugin.data.sortPropertyDescending,
+			sortPropertyMissing: find(preset => preset.sortPropertyMissing) ?? this.plugin.data.sortPropertyMissing,
+			previewLines: find(preset => preset.previewLines) ?? this.plugin.data.previewLines,
+			cardLayout: find(preset => preset.cardLayout) ?? this.plugin.data.cardLayout,
+			fileTypes: find(preset => preset.fileTypes) ?? null,
+			openTasksOnly: find(preset => preset.openTasksOnly) ?? false,
+			presetPath: presets.length > 0 ? presets[0][0] : null
+		};
+	}
 
-						// Move the file
-						const newPath = this.getNewPath(item, draggedItem.name);
-						try {
-							await this.app.vault.rename(draggedItem, newPath);
-							// Vault rename event will trigger re-render automatically
-						} catch (error) {
-							console.error("Failed to move file:", error);
-							new Notice("Failed to move file");
-						}
-					}
-				};
+	private setCardLayout(cardLayout: CardLayout) {
+		// Folders with a view (their own or inherited) get an override, others change the global setting
+		if (this.selectedFolder && this.getApplicablePresets(this.selectedFolder).length > 0) {
+			this.setFolderOverride(this.selectedFolder, "cardLayout", cardLayout, this.plugin.data.cardLayout);
+		} else {
+			this.plugin.data.cardLayout = cardLayout;
+		}
+	}
 
-				handleDrop().catch(console.error);
-			});
+	private setSortOrder(sortOrder: SortOrder) {
+		// Folders with a view (their own or inherited) get an override, others change the global setting
+		if (this.selectedFolder && this.getApplicablePresets(this.selectedFolder).length > 0) {
+			this.setFolderOverride(this.selectedFolder, "sortOrder", sortOrder, this.plugin.data.sortOrder);
+		} else {
+			this.plugin.data.sortOrder = sortOrder;
+		}
+	}
 
-			await this.renderFolder(item, folderContent, level + 1);
+	private setSortProperty(options: SortPropertyOptions) {
+		// Saved like the sort order - an override on a folder with a view, else the global setting
+		const folder = this.selectedFolder;
+		if (folder && this.getApplicablePresets(folder).length > 0) {
+			this.setFolderOverride(folder, "sortProperty", options.property, this.plugin.data.sortProperty);
+			this.setFolderOverride(folder, "sortPropertyDescending", options.descending, this.plugin.data.sortPropertyDescending);
+			this.setFolderOverride(folder, "sortPropertyMissing", options.missing, this.plugin.data.sortPropertyMissing);
+		} else {
+			this.plugin.data.sortProperty = options.property;
+			this.plugin.data.sortPropertyDescending = options.descending;
+			this.plugin.data.sortPropertyMissing = options.missing;
 		}
 	}
 
-	async renderPreview() {
-		this.previewHeader.empty();
-		this.previewContent.empty();
+	private setFolderOverride<K extends Exclude<keyof FolderViewPreset, "applyToSubfolders">>(folder: TFolder, key: K, value: FolderViewPreset[K], defaultValue: FolderViewPreset[K]) {
+		// Set an option on the folder's own view, so a preset inherited from a parent folder is overridden rather than changed
+		const presets = this.plugin.data.folderPresets;
+		const preset = presets[folder.path] ?? { applyToSubfolders: false };
+
+		// Matching what the parent folders (or the global settings) give is left unset, so later changes there still apply
+		const inherited = this.getApplicablePresets(folder)
+			.find(([path, applicable]) => path !== folder.path && applicable[key] !== undefined);
+		const inheritedValue = inherited ? inherited[1][key] : defaultValue;
+		preset[key] = value === inheritedValue ? undefined : value;
+		if (isPresetEmpty(preset)) {
+			delete presets[folder.path];
+		} else {
+			presets[folder.path] = preset;
+		}
+	}
 
-		// Clear preview text cache when doing a full re-render
-		this.previewTextCache.clear();
+	private openFolderViewModal(folder: TFolder) {
+		const preset = this.plugin.data.folderPresets[folder.path];
+		new FolderViewModal(this.app, this.getFolderDisplayName(folder.path), preset, (newPreset) => {
+			const savePreset = async () => {
+				if (newPreset) {
+					this.plugin.data.folderPresets[folder.path] = newPreset;
+				} else {
+					delete this.plugin.data.folderPresets[folder.path];
+				}
+				await this.plugin.savePluginData();
+				await this.renderPreview();
+			};
+			savePreset().catch(console.error);
+		}).open();
+	}
 
-		if (!this.selectedFolder) {
-			this.previewHeader.setText("");
-			this.previewContent.createDiv({
-				text: "Select a folder to preview its files",
-				cls: "ftpreview-no-selection"
-			});
-			return;
+	private getFolderDisplayName(path: string): string {
+		const folder = this.getFolderByPath(path);
+		if (!folder || folder.isRoot()) {
+			return this.app.vault.getName();
 		}
+		return folder.name;
+	}
 
-		// Create header layout
-		const headerLeft = this.previewHeader.createDiv({ cls: "ftpreview-preview-header-left" });
-		// Show vault name for root folder, otherwise show folder name
-		const displayName = this.selectedFolder.path === "/"
-			? this.app.vault.getName()
-			: this.selectedFolder.name;
-		headerLeft.setText(displayName);
+	private getFileCategory(file: TFile): FileCategory {
+		// Group extensions into the categories a folder view can be limited to
+		const ext = file.extension.toLowerCase();
+		if (ext === 'md') return "notes";
+		if (ext === 'canvas') return "canvases";
+		if (['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'heic', 'heif'].includes(ext)) return "images";
+		if (ext === 'pdf') return "pdfs";
+		if (AUDIO_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext)) return "media";
+		return "other";
+	}
 
-		const headerRight = this.previewHeader.createDiv({ cls: "ftpreview-preview-header-right" });
+	private sortFiles(files: TFile[]) {
+		// First sort by the selected sort order
+		switch (this.viewSettings.sortOrder) {
+			case "name-asc":
+				files.sort((a, b) => a.basename.localeCompare(b.basename));
+				break;
+			case "name-desc":
+				files.sort((a, b) => b.basename.localeCompare(a.basename));
+				break;
+			case "modified-new":
+				files.sort((a, b) => b.stat.mtime - a.stat.mtime);
+				break;
+			case "modified-old":
+				files.sort((a, b) => a.stat.mtime - b.stat.mtime);
+				break;
+			case "created-new":
+				files.sort((a, b) => b.stat.ctime - a.stat.ctime);
+				break;
+			case "created-old":
+				files.sort((a, b) => a.stat.ctime - b.stat.ctime);
+				break;
+			case "property":
+				this.sortFilesByProperty(files);
+				break;
+			case "manual":
+				this.sortFilesManually(files);
+				break;
+		}
 
-		// Add sort menu button
-		const sortButton = headerRight.createEl("button", {
-			cls: "ftpreview-header-button",
-			attr: { "aria-label": "Sort files" }
+		// Then sort pinned files to the top (stable sort - preserves order within pinned/unpinned groups)
+		files.sort((a, b) => {
+			const aIsPinned = this.isPinned(a);
+			const bIsPinned = this.isPinned(b);
+			if (aIsPinned && !bIsPinned) return -1;
+			if (!aIsPinned && bIsPinned) return 1;
+			return 0;
 		});
-		sortButton.setText("⇅");
+	}
 
-		sortButton.addEventListener("click", (e) => {
-			const menu = new Menu();
+	private sortFilesManually(files: TFile[]) {
+		// Saved order for the selected folder; files that aren't in it yet are new
+		const order = this.selectedFolder ? this.plugin.data.manualOrder[this.selectedFolder.path] ?? [] : [];
+		const positions = new Map<string, number>();
+		order.forEach((path, index) => positions.set(path, index));
 
-			menu.addItem((item) => {
-				item.setTitle("Name (a to z)")
-					.setChecked(this.plugin.data.sortOrder === "name-asc")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "name-asc";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+		const placed = files.filter(file => positions.has(file.path));
+		const unplaced = files.filter(file => !positions.has(file.path));
+		placed.sort((a, b) => (positions.get(a.path) ?? 0) - (positions.get(b.path) ?? 0));
 
-			menu.addItem((item) => {
-				item.setTitle("Name (z to a)")
-					.setChecked(this.plugin.data.sortOrder === "name-desc")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "name-desc";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+		// New files are kept newest-nearest-the-edge they are added to
+		if (this.plugin.data.manualOrderNewFiles === "top") {
+			unplaced.sort((a, b) => b.stat.ctime - a.stat.ctime);
+			files.splice(0, files.length, ...unplaced, ...placed);
+		} else {
+			unplaced.sort((a, b) => a.stat.ctime - b.stat.ctime);
+			files.splice(0, files.length, ...placed, ...unplaced);
+		}
+	}
 
-			menu.addSeparator();
+	private async moveCardsInManualOrder(paths: string[], target: TFile, after: boolean) {
+		// Move the dragged cards next to the target and save the folder's full order
+		if (!this.selectedFolder || paths.includes(target.path)) return;
 
-			menu.addItem((item) => {
-				item.setTitle("Date modified (newest first)")
-					.setChecked(this.plugin.data.sortOrder === "modified-new")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "modified-new";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+		// Start from the saved order, so files hidden by a type or tasks filter keep their place
+		// Listed files without a saved place join at the edge they are shown at
+		const savedOrder = (this.plugin.data.manualOrder[this.selectedFolder.path] ?? [])
+			.filter(path => this.app.vault.getAbstractFileByPath(path) instanceof TFile);
+		const savedPaths = new Set(savedOrder);
+		const unsavedPaths = this.previewFiles.map(file => file.path).filter(path => !savedPaths.has(path));
+		const fullOrder = this.plugin.data.manualOrderNewFiles === "top" ? [...unsavedPaths, ...savedOrder] : [...savedOrder, ...unsavedPaths];
 
-			menu.addItem((item) => {
-				item.setTitle("Date modified (oldest first)")
-					.setChecked(this.plugin.data.sortOrder === "modified-old")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "modified-old";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+		const order = fullOrder.filter(path => !paths.includes(path));
+		const targetIndex = order.indexOf(target.path);
+		if (targetIndex === -1) return;
 
-			menu.addSeparator();
+		const movedPaths = this.previewFiles.map(file => file.path).filter(path => paths.includes(path));
+		order.splice(after ? targetIndex + 1 : targetIndex, 0, ...movedPaths);
 
-			menu.addItem((item) => {
-				item.setTitle("Date created (newest first)")
-					.setChecked(this.plugin.data.sortOrder === "created-new")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "created-new";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+		this.plugin.data.manualOrder[this.selectedFolder.path] = order;
+		await this.plugin.savePluginData();
+		await this.renderPreview();
+	}
 
-			menu.addItem((item) => {
-				item.setTitle("Date created (oldest first)")
-					.setChecked(this.plugin.data.sortOrder === "created-old")
-					.onClick(() => {
-						const updateSort = async () => {
-							this.plugin.data.sortOrder = "created-old";
-							await this.plugin.savePluginData();
-							await this.renderPreview();
-						};
-						updateSort().catch(console.error);
-					});
-			});
+	private sortFilesByProperty(files: TFile[]) {
+		const { sortProperty, sortPropertyDescending, sortPropertyMissing } = this.viewSettings;
+		if (!sortProperty) {
+			files.sort((a, b) => a.basename.localeCompare(b.basename));
+			return;
+		}
 
-			menu.showAtMouseEvent(e);
-		});
+		// Read each value once up front rather than on every comparison, and keep them to spot changes later
+		const values = new Map<string, PropertySortValue | null>();
+		files.forEach(file => values.set(file.path, this.getPropertySortValue(file, sortProperty)));
+		this.propertySortValues = values;
 
-		// Add collapse preview button
-		const collapseButton = headerRight.createEl("button", {
-			cls: "ftpreview-header-button",
-			attr: { "aria-label": "Collapse previews" }
-		});
-		collapseButton.setText(this.previewsCollapsed ? "⊕" : "⊖");
+		files.sort((a, b) => {
+			const aValue = values.get(a.path) ?? null;
+			const bValue = values.get(b.path) ?? null;
+
+			// Notes without the property go first or last regardless of direction
+			if (!aValue || !bValue) {
+				if (aValue === bValue) return a.basename.localeCompare(b.basename);
+				const missingFirst = sortPropertyMissing === "first" ? -1 : 1;
+				return aValue ? -missingFirst : missingFirst;
+			}
 
-		collapseButton.addEventListener("click", () => {
-			this.previewsCollapsed = !this.previewsCollapsed;
-			collapseButton.setText(this.previewsCollapsed ? "⊕" : "⊖");
-			collapseButton.setAttribute("aria-label", this.previewsCollapsed ? "Expand previews" : "Collapse previews");
+			// Numbers, dates and text keep their group order regardless of direction
+			if (aValue.rank !== bValue.rank) {
+				return aValue.rank - bValue.rank;
+			}
 
-			if (this.previewsCollapsed) {
-				this.previewContent.addClass("ftpreview-previews-collapsed");
-			} else {
-				this.previewContent.removeClass("ftpreview-previews-collapsed");
+			let result = typeof aValue.value === "number" && typeof bValue.value === "number"
+				? aValue.value - bValue.value
+				: String(aValue.value).localeCompare(String(bValue.value), undefined, { numeric: true, sensitivity: "base" });
+			if (sortPropertyDescending) {
+				result = -result;
 			}
+			// Fall back to name order for equal values
+			return result !== 0 ? result : a.basename.localeCompare(b.basename);
 		});
+	}
 
-		// Add new file button
-		const newFileButton = headerRight.createEl("button", {
-			cls: "ftpreview-header-button",
-			attr: { "aria-label": "New file" }
-		});
-		newFileButton.setText("+");
+	private hasPropertySortValueChanged(file: TFile): boolean {
+		// Compare a note's sort property with the value it was last sorted by
+		const { sortProperty } = this.viewSettings;
+		if (!sortProperty) return false;
+		const previous = this.propertySortValues.get(file.path) ?? null;
+		const current = this.getPropertySortValue(file, sortProperty);
+		if (!previous || !current) return previous !== current;
+		return previous.rank !== current.rank || previous.value !== current.value;
+	}
 
-		newFileButton.addEventListener("click", () => {
-			if (this.selectedFolder) {
-				const createFile = async () => {
-					try {
-						const fileName = "Untitled.md";
-						let filePath = `${this.selectedFolder!.path}/${fileName}`;
-						let counter = 1;
+	private getPropertySortValue(file: TFile, property: string): PropertySortValue | null {
+		// Interpret a frontmatter value as a number, a date or text
+		const rawValue: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+		// Lists sort by their first item
+		const value: unknown = Array.isArray(rawValue) ? rawValue[0] : rawValue;
 
-						// Handle naming conflicts
-						while (await this.app.vault.adapter.exists(filePath)) {
-							filePath = `${this.selectedFolder!.path}/Untitled ${counter}.md`;
-							counter++;
-						}
+		if (value === null || value === undefined || value === "") {
+			return null;
+		}
+		if (typeof value === "number") {
+			return { rank: 0, value };
+		}
+		if (typeof value === "boolean") {
+			return { rank: 0, value: value ? 1 : 0 };
+		}
 
-						const file = await this.app.vault.create(filePath, "");
-						await this.app.workspace.getLeaf(false).openFile(file);
-					} catch (error) {
-						console.error("Error creating new file:", error);
-						new Notice("Failed to create new file");
+		const text = String(value).trim();
+		if (/^-?\d+(\.\d+)?$/.test(text)) {
+			return { rank: 0, value: parseFloat(text) };
+		}
+		if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+			const time = Date.parse(text);
+			if (!isNaN(time)) {
+				return { rank: 1, value: time };
+			}
+		}
+		return { rank: 2, value: text };
+	}
+
+	private getFrontmatterKeys(files: TFile[]): string[] {
+		// Property names used by the given files, for suggestions
+		const keys = new Set<string>();
+		files.forEach((file) => {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (frontmatter) {
+				Object.keys(frontmatter).forEach((key) => {
+					if (key !== "position") {
+						keys.add(key);
 					}
-				};
-				createFile().catch(console.error);
+				});
 			}
 		});
+		return Array.from(keys).sort((a, b) => a.localeCompare(b));
+	}
 
-		// Get all files in the selected folder (not subfolders)
-		const files = this.selectedFolder.children.filter(
-			(child): child is TFile => child instanceof TFile
-		);
+	private getFilesFromPaths(paths: string[]): TFile[] {
+		return paths
+			.map(path => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+	}
 
-		if (files.length === 0) {
-			this.previewContent.createDiv({
-				text: "This folder contains no files",
-				cls: "ftpreview-no-selection"
-			});
-			return;
+	private getSelectionFor(file: TFile): TFile[] {
+		// Actions on a selected card apply to the whole selection, otherwise just to that card
+		if (this.selectedFiles.size > 1 && this.selectedFiles.has(file.path)) {
+			return this.getFilesFromPaths(Array.from(this.selectedFiles));
+		}
+		return [file];
+	}
+
+	private updateSelectionClasses() {
+		// Update selection classes without re-rendering
+		const allCards = this.previewContent.querySelectorAll('.ftpreview-preview-item');
+		allCards.forEach((card) => {
+			const filePath = card.getAttribute('data-file-path');
+			card.toggleClass('ftpreview-preview-item-selected', filePath !== null && this.selectedFiles.has(filePath));
+		});
+	}
+
+	private toggleFileSelection(file: TFile) {
+		if (this.selectedFiles.has(file.path)) {
+			this.selectedFiles.delete(file.path);
+		} else {
+			this.selectedFiles.add(file.path);
+		}
+		this.selectionAnchor = file.path;
+		this.updateSelectionClasses();
+	}
+
+	private selectFileRange(file: TFile) {
+		// Select every visible card between the anchor and this card
+		const paths = this.visibleFiles.map(visibleFile => visibleFile.path);
+		const anchorIndex = this.selectionAnchor ? paths.indexOf(this.selectionAnchor) : -1;
+		const fileIndex = paths.indexOf(file.path);
+
+		this.selectedFiles.clear();
+		if (anchorIndex === -1 || fileIndex === -1) {
+			this.selectedFiles.add(file.path);
+			this.selectionAnchor = file.path;
+		} else {
+			const start = Math.min(anchorIndex, fileIndex);
+			const end = Math.max(anchorIndex, fileIndex);
+			paths.slice(start, end + 1).forEach(path => this.selectedFiles.add(path));
+		}
+		this.updateSelectionClasses();
+	}
+
+	private clearFileSelection() {
+		if (this.selectedFiles.size === 0) return;
+		this.selectedFiles.clear();
+		this.selectionAnchor = null;
+		this.updateSelectionClasses();
+	}
+
+	private async moveFilesToFolder(files: TFile[], folder: TFolder) {
+		// Move several files into a folder, skipping any already there
+		const filesToMove = files.filter(file => file.parent !== folder);
+		if (filesToMove.length === 0) return;
+
+		let movedCount = 0;
+		for (const file of filesToMove) {
+			try {
+				await this.app.vault.rename(file, this.getNewPath(folder, file.name));
+				movedCount++;
+			} catch (error) {
+				console.error(`Failed to move file ${file.name}:`, error);
+				new Notice(`Failed to move ${file.name}`);
+			}
 		}
 
-		// Sort files based on sort order
-		this.sortFiles(files);
-
-		// Create preview for each file
-		for (const file of files) {
-			await this.renderFilePreview(file);
+		if (movedCount > 0) {
+			const folderName = folder.isRoot() ? this.app.vault.getName() : folder.name;
+			new Notice(`Moved ${movedCount} file${movedCount > 1 ? 's' : ''} to ${folderName}`);
 		}
+		this.clearFileSelection();
 	}
 
-	private sortFiles(files: TFile[]) {
-		// First sort by the selected sort order
-		switch (this.plugin.data.sortOrder) {
-			case "name-asc":
-				files.sort((a, b) => a.basename.localeCompare(b.basename));
-				break;
-			case "name-desc":
-				files.sort((a, b) => b.basename.localeCompare(a.basename));
-				break;
-			case "modified-new":
-				files.sort((a, b) => b.stat.mtime - a.stat.mtime);
-				break;
-			case "modified-old":
-				files.sort((a, b) => a.stat.mtime - b.stat.mtime);
-				break;
-			case "created-new":
-				files.sort((a, b) => b.stat.ctime - a.stat.ctime);
-				break;
-			case "created-old":
-				files.sort((a, b) => a.stat.ctime - b.stat.ctime);
-				break;
+	private buildCardContextMenu(menu: Menu, file: TFile) {
+		// Use the batch menu when right-clicking part of a multi-file selection
+		const files = this.getSelectionFor(file);
+		if (files.length > 1) {
+			this.buildBatchContextMenu(menu, files);
+		} else {
+			this.clearFileSelection();
+			this.buildFileContextMenu(menu, file);
 		}
+	}
 
-		// Then sort pinned files to the top (stable sort - preserves order within pinned/unpinned groups)
-		files.sort((a, b) => {
-			const aIsPinned = this.isPinned(a);
-			const bIsPinned = this.isPinned(b);
-			if (aIsPinned && !bIsPinned) return -1;
-			if (!aIsPinned && bIsPinned) return 1;
-			return 0;
+	private buildBatchContextMenu(menu: Menu, files: TFile[]) {
+		// Add "Move to..." option
+		menu.addItem((menuItem) => {
+			menuItem
+				.setTitle(`Move ${files.length} files to...`)
+				.setIcon("folder-input")
+				.onClick(() => {
+					new FolderSuggestModal(this.app, (folder) => {
+						this.moveFilesToFolder(files, folder).catch(console.error);
+					}).open();
+				});
+		});
+
+		menu.addSeparator();
+
+		// Add "Pin all" / "Unpin all" option - unpin only when every file is already pinned
+		const allPinned = files.every(file => this.isPinned(file));
+		menu.addItem((menuItem) => {
+			menuItem
+				.setTitle(allPinned ? `Unpin ${files.length} files` : `Pin ${files.length} files to top`)
+				.setIcon("pin")
+				.onClick(() => {
+					files.forEach((file) => {
+						if (allPinned) {
+							this.pinnedFiles.delete(file.path);
+						} else {
+							this.pinnedFiles.add(file.path);
+						}
+					});
+					this.savePinnedFiles();
+					this.renderPreview().catch(console.error);
+				});
+		});
+
+		// Add "Copy links" option
+		menu.addItem((menuItem) => {
+			menuItem
+				.setTitle(`Copy ${files.length} links`)
+				.setIcon("link")
+				.onClick(() => {
+					const sourcePath = this.activeFile?.path ?? "";
+					const links = files.map(file => this.app.fileManager.generateMarkdownLink(file, sourcePath));
+					navigator.clipboard.writeText(links.join("\n"))
+						.then(() => new Notice(`Copied ${files.length} links`))
+						.catch((error) => {
+							console.error("Failed to copy links:", error);
+							new Notice("Failed to copy links");
+						});
+				});
+		});
+
+		menu.addSeparator();
+
+		// Add "Delete" option
+		menu.addItem((menuItem) => {
+			menuItem
+				.setTitle(`Delete ${files.length} files`)
+				.setIcon("trash")
+				.onClick(() => {
+					new DeleteFilesModal(this.app, files.length, () => {
+						const deleteFiles = async () => {
+							for (const file of files) {
+								try {
+									await this.app.fileManager.trashFile(file);
+								} catch (error) {
+									console.error(`Failed to delete file ${file.name}:`, error);
+									new Notice(`Failed to delete ${file.name}`);
+								}
+							}
+							this.clearFileSelection();
+							await this.renderPreview();
+						};
+						deleteFiles().catch(console.error);
+					}).open();
+				});
 		});
+
+		menu.addSeparator();
+
+		// Add standard Obsidian multi-file menu options
+		this.app.workspace.trigger("files-menu", menu, files, "file-explorer");
 	}
 
 	private buildFolderContextMenu(menu: Menu, folder: TFolder) {
@@ -1594,6 +4927,25 @@ class FileTreePreviewView extends ItemView {
 				});
 		});
 
+		// Add "Pin to top" option (the root folder has no siblings to float above)
+		if (!folder.isRoot()) {
+			menu.addItem((menuItem) => {
+				const isPinned = this.isFolderPinned(folder);
+				menuItem
+					.setTitle(isPinned ? "Unpin folder" : "Pin folder to top")
+					.setIcon(isPinned ? "pin-off" : "pin")
+					.onClick(() => this.toggleFolderPin(folder));
+			});
+		}
+
+		// Add "Folder view" option
+		menu.addItem((menuItem) => {
+			menuItem
+				.setTitle("Folder view...")
+				.setIcon("layout")
+				.onClick(() => this.openFolderViewModal(folder));
+		});
+
 		menu.addSeparator();
 
 		// Add "Rename" option
@@ -1803,38 +5155,41 @@ class FileTreePreviewView extends ItemView {
 	private async updateSinglePreviewCard(file: TFile): Promise<boolean> {
 		// Try to update just one preview card instead of re-rendering entire panel
 		// Returns true if successful, false if fallback to full render is needed
-		try {
-			// Find the existing card
-			const existingCard = this.previewContent.querySelector(`[data-file-path="${file.path}"]`) as HTMLElement;
+		if (!this.previewFiles.includes(file)) {
+			return false; // File not in the list, need full render
+		}
 
-			if (!existingCard) {
-				return false; // Card not found, need full render
+		try {
+			// Re-read the preview text unless the cache already has the latest content
+			if (!this.getFileTypeInfo(file) && this.getCachedPreviewText(file) === undefined) {
+				await this.loadPreviewText(file);
 			}
 
-			// Create a temporary container to build the new card
-			const tempContainer = createDiv();
-			const oldPreviewContent = this.previewContent;
-
-			// Temporarily point to temp container so renderFilePreview creates card there
-			this.previewContent = tempContainer;
-
-			try {
-				await this.renderFilePreview(file);
-
-				// Get the newly created card
-				const newCard = tempContainer.firstChild as HTMLElement;
-
-				if (newCard) {
-					// Replace the old card with the new one
-					existingCard.replaceWith(newCard);
-					return true;
-				} else {
-					return false;
+			// Only rendered cards need rebuilding - others pick up the new text when scrolled into view
+			const existingCard = this.renderedCards.get(file.path);
+			if (existingCard) {
+				// Carry over keyboard focus and the tab stop to the new card
+				this.releaseCardRender(file.path);
+				const newCard = this.createPreviewCard(file);
+				const hadFocus = existingCard.contains(document.activeElement);
+				newCard.setAttribute("tabindex", existingCard.getAttribute("tabindex") ?? "-1");
+				newCard.toggleClass("ftpreview-preview-item-last", existingCard.hasClass("ftpreview-preview-item-last"));
+				existingCard.replaceWith(newCard);
+				this.renderedCards.set(file.path, newCard);
+				// Cards in gallery lines are part of a larger row
+				if (this.renderedRows.get(file.path) === existingCard) {
+					this.renderedRows.set(file.path, newCard);
 				}
-			} finally {
-				// Restore the real preview content container
-				this.previewContent = oldPreviewContent;
+				if (hadFocus) {
+					newCard.focus();
+				}
+			}
+
+			// The new text may change whether the file matches the filter
+			if (this.isPreviewFilterActive() && this.filteredFiles.includes(file) !== this.matchesPreviewFilter(file)) {
+				this.updateVisibleFiles();
 			}
+			return true;
 		} catch (error) {
 			console.error('Error updating single card:', error);
 			return false; // Error, need full render
@@ -1886,7 +5241,7 @@ class FileTreePreviewView extends ItemView {
 		}
 
 		// Audio files
-		if (['mp3', 'wav', 'ogg', 'm4a', 'flac', 'aac', 'wma'].includes(ext)) {
+		if (AUDIO_EXTENSIONS.includes(ext)) {
 			return {
 				type: 'placeholder',
 				icon: `<svg viewBox="0 0 100 100" class="ftpreview-file-icon"><circle cx="35" cy="65" r="15" fill="none" stroke="currentColor" stroke-width="3" opacity="0.4"/><circle cx="65" cy="65" r="15" fill="none" stroke="currentColor" stroke-width="3" opacity="0.4"/><path d="M50,65 L50,25 L75,20 L75,60" stroke="currentColor" stroke-width="3" fill="none" opacity="0.5"/></svg>`,
@@ -1895,7 +5250,7 @@ class FileTreePreviewView extends ItemView {
 		}
 
 		// Video files
-		if (['mp4', 'webm', 'mov', 'mkv', 'avi', 'wmv', 'flv'].includes(ext)) {
+		if (VIDEO_EXTENSIONS.includes(ext)) {
 			return {
 				type: 'placeholder',
 				icon: `<svg viewBox="0 0 100 100" class="ftpreview-file-icon"><rect x="15" y="25" width="55" height="50" rx="3" fill="none" stroke="currentColor" stroke-width="3" opacity="0.4"/><polygon points="40,45 40,65 60,55" fill="currentColor" opacity="0.5"/></svg>`,
@@ -1906,18 +5261,22 @@ class FileTreePreviewView extends ItemView {
 		return null;
 	}
 
-	private async renderFilePreview(file: TFile) {
+	private createPreviewCard(file: TFile): HTMLElement {
+		// Build a detached preview card - text is filled in from the cache or read in the background
 		const fileTypeInfo = this.getFileTypeInfo(file);
 
 		// Highlight the currently active/open file
 		const isActive = this.activeFile === file;
 		const classes = "ftpreview-preview-item" + (isActive ? " ftpreview-preview-item-active" : "");
 
-		const previewItem = this.previewContent.createDiv({ cls: classes });
+		const previewItem = createDiv({ cls: classes });
 
 		// Add data attribute for selective updates
 		previewItem.setAttribute("data-file-path", file.path);
 
+		// Cards are reached with arrow keys, so only one card is in the tab order
+		previewItem.setAttribute("tabindex", "-1");
+
 		// Make preview card draggable (only on non-touch devices)
 		if (!this.isTouchDevice) {
 			previewItem.setAttribute("draggable", "true");
@@ -1928,9 +5287,16 @@ class FileTreePreviewView extends ItemView {
 				e.dataTransfer.effectAllowed = "move";
 			}
 
-			// Create custom drag ghost - just filename in a pill
+			// Dragging a selected card drags the whole selection
+			const draggedFiles = this.getSelectionFor(file);
+			if (draggedFiles.length > 1) {
+				e.dataTransfer?.setData(SELECTED_FILES_DRAG_TYPE, JSON.stringify(draggedFiles.map(f => f.path)));
+			}
+			this.draggedCardPaths = draggedFiles.map(f => f.path);
+
+			// Create custom drag ghost - just filename (or file count) in a pill
 			this.dragGhost = document.body.createDiv({ cls: "ftpreview-drag-ghost" });
-			this.dragGhost.setText(file.basename);
+			this.dragGhost.setText(draggedFiles.length > 1 ? `${draggedFiles.length} files` : file.basename);
 
 			// Get the computed accent color and make it 50% transparent
 			const accentColor = getComputedStyle(document.body).getPropertyValue('--interactive-accent').trim();
@@ -1952,6 +5318,7 @@ class FileTreePreviewView extends ItemView {
 		});
 		previewItem.addEventListener("dragend", () => {
 			previewItem.removeClass("ftpreview-dragging");
+			this.draggedCardPaths = null;
 
 			// Clean up the drag ghost
 			if (this.dragGhost) {
@@ -1960,6 +5327,35 @@ class FileTreePreviewView extends ItemView {
 			}
 		});
 
+		// In manual sort mode, dropping cards onto another card reorders them
+		const isDropAfter = (e: DragEvent) => {
+			const rect = previewItem.getBoundingClientRect();
+			return e.clientY > rect.top + rect.height / 2;
+		};
+		const clearDropIndicator = () => {
+			previewItem.removeClass("ftpreview-drop-before");
+			previewItem.removeClass("ftpreview-drop-after");
+		};
+		previewItem.addEventListener("dragover", (e) => {
+			if (this.viewSettings.sortOrder !== "manual" || !this.draggedCardPaths || this.draggedCardPaths.includes(file.path)) return;
+			e.preventDefault();
+			e.stopPropagation();
+			if (e.dataTransfer) {
+				e.dataTransfer.dropEffect = "move";
+			}
+			const after = isDropAfter(e);
+			previewItem.toggleClass("ftpreview-drop-before", !after);
+			previewItem.toggleClass("ftpreview-drop-after", after);
+		});
+		previewItem.addEventListener("dragleave", clearDropIndicator);
+		previewItem.addEventListener("drop", (e) => {
+			clearDropIndicator();
+			if (this.viewSettings.sortOrder !== "manual" || !this.draggedCardPaths) return;
+			e.preventDefault();
+			e.stopPropagation();
+			this.moveCardsInManualOrder(this.draggedCardPaths, file, isDropAfter(e)).catch(console.error);
+		});
+
 		// Filename in bold with pin indicator if pinned
 		const filename = previewItem.createDiv({ cls: "ftpreview-preview-filename" });
 		filename.createEl("strong", { text: file.basename });
@@ -1971,56 +5367,161 @@ class FileTreePreviewView extends ItemView {
 			pinIndicator.setAttribute("aria-label", "Pinned");
 		}
 
+		// Backlink, outgoing link and unresolved link badges, right-aligned
+		if (this.plugin.data.showLinkBadges) {
+			this.fillLinkBadges(filename.createSpan({ cls: "ftpreview-link-badges" }), file);
+		}
+
+		// Titles-only rows show the date the list is sorted by, right-aligned
+		const cardLayout = this.viewSettings.cardLayout;
+		if (cardLayout === "titles") {
+			const sortOrder = this.viewSettings.sortOrder;
+			const time = sortOrder === "created-new" || sortOrder === "created-old" ? file.stat.ctime : file.stat.mtime;
+			filename.createSpan({
+				cls: "ftpreview-preview-date",
+				text: new Date(time).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+			});
+		}
+
+		// Show the subfolder path for files listed via include-subfolders mode
+		const relativeFolderPath = this.getRelativeFolderPath(file);
+		if (relativeFolderPath) {
+			previewItem.createDiv({ cls: "ftpreview-preview-subfolder", text: relativeFolderPath });
+		}
+
+		// Previews match the text height, except in the gallery where tiles have a fixed thumbnail size
+		// Titles-only rows hide previews, so nothing is read or rendered for them
+		const lineCount = this.viewSettings.previewLines;
+		const visualHeight = cardLayout === "gallery" ? "var(--ftpreview-gallery-thumbnail-height)" : `calc(1.4em * ${lineCount})`;
+		const loadPreviews = cardLayout !== "titles";
+		let cardVisual: HTMLElement | null = null;
+
 		if (fileTypeInfo?.type === 'image') {
 			// Display thumbnail for image files
 			const thumbnailContainer = previewItem.createDiv({ cls: "ftpreview-preview-thumbnail" });
 			const img = thumbnailContainer.createEl("img");
 			img.src = this.app.vault.getResourcePath(file);
 			img.alt = file.basename;
-
-			// Apply same height as text preview
-			const lineCount = this.plugin.data.previewLines;
-			thumbnailContainer.setCssProps({ height: `calc(1.4em * ${lineCount})` });
+			thumbnailContainer.setCssProps({ height: visualHeight });
+			cardVisual = thumbnailContainer;
 		} else if (fileTypeInfo?.type === 'placeholder') {
-			// Display placeholder for special files
+			// Display placeholder for special files, or a rendered thumbnail once available
+			const thumbnail = this.hasThumbnail(file) ? this.plugin.thumbnailCache.get(file) : undefined;
 			const placeholderContainer = previewItem.createDiv({ cls: "ftpreview-preview-placeholder" });
-			const iconContainer = placeholderContainer.createDiv({ cls: "ftpreview-placeholder-icon" });
-			// Use DOM parser to safely insert SVG
-			const parser = new DOMParser();
-			const doc = parser.parseFromString(fileTypeInfo.icon, 'image/svg+xml');
-			const svgEl = doc.documentElement;
-			if (svgEl && !svgEl.querySelector('parsererror')) {
-				iconContainer.appendChild(svgEl);
-			}
-			placeholderContainer.createDiv({ cls: "ftpreview-placeholder-label", text: fileTypeInfo.label });
-
-			// Apply same height as text preview
-			const lineCount = this.plugin.data.previewLines;
-			placeholderContainer.setCssProps({ height: `calc(1.4em * ${lineCount})` });
-		} else {
-			// Read file content for text files
-			const content = await this.app.vault.read(file);
-
-			// Extract preview text (first few lines, excluding frontmatter)
-			const previewText = this.extractPreviewText(content);
+			let visual: HTMLElement;
+			if (thumbnail?.dataUrl) {
+				placeholderContainer.addClass("ftpreview-placeholder-thumbnail");
+				const img = placeholderContainer.createEl("img", { attr: { alt: "" } });
+				img.src = thumbnail.dataUrl;
+				visual = img;
+			} else {
+				const iconContainer = placeholderContainer.createDiv({ cls: "ftpreview-placeholder-icon" });
+				visual = iconContainer;
+				// Use DOM parser to safely insert SVG
+				const parser = new DOMParser();
+				const doc = parser.parseFromString(fileTypeInfo.icon, 'image/svg+xml');
+				const svgEl = doc.documentElement;
+				if (svgEl && !svgEl.querySelector('parsererror')) {
+					iconContainer.appendChild(svgEl);
+				}
+				if (this.hasThumbnail(file) && !thumbnail && loadPreviews) {
+					// Render lazily - the card is rebuilt once the thumbnail is ready
+					this.requestThumbnail(file);
+				}
+			}
+			// Media cards also show their file size
+			const isMedia = this.isPlayableMedia(file);
+			const label = [fileTypeInfo.label, thumbnail?.detail, isMedia ? formatFileSize(file.stat.size) : ""]
+				.filter(part => part)
+				.join(" · ");
+			placeholderContainer.createDiv({ cls: "ftpreview-placeholder-label", text: label });
+
+			// Play audio and video in place without opening the file
+			if (isMedia) {
+				placeholderContainer.addClass("ftpreview-placeholder-media");
+				const playButton = placeholderContainer.createDiv({
+					cls: "ftpreview-media-play clickable-icon",
+					attr: { role: "button", tabindex: "0", "aria-label": "Play" }
+				});
+				setIcon(playButton, "play");
+				playButton.addEventListener("click", (e) => {
+					e.stopPropagation();
+					this.toggleMediaPlayback(file, playButton, visual);
+				});
+				// Reachable with Tab from the card - Enter and Space play rather than open the file
+				playButton.addEventListener("keydown", (e) => {
+					if (e.key !== "Enter" && e.key !== " ") return;
+					e.preventDefault();
+					e.stopPropagation();
+					this.toggleMediaPlayback(file, playButton, visual);
+				});
+			}
 
-			// Cache the preview text for smart refresh detection
-			this.previewTextCache.set(file.path, previewText);
+			placeholderContainer.setCssProps({ height: visualHeight });
+			cardVisual = placeholderContainer;
+		} else {
+			// Notes with a cover image show it beside or above the text - gallery tiles always put it on top
+			const coverLayout = cardLayout === "gallery" && this.plugin.data.coverLayout !== "off" ? "above" : this.plugin.data.coverLayout;
+			const coverSource = coverLayout !== "off" ? this.getCoverImageSource(file) : null;
+			let previewBody = previewItem;
+			if (coverSource) {
+				previewBody = previewItem.createDiv({ cls: `ftpreview-preview-body ftpreview-cover-${coverLayout}` });
+				const cover = previewBody.createDiv({ cls: "ftpreview-preview-cover" });
+				cover.setCssProps({ height: visualHeight });
+				const img = cover.createEl("img", { attr: { loading: "lazy", alt: "" } });
+				img.src = coverSource;
+				cardVisual = cover;
+			}
 
-			// Preview lines
-			const previewLines = previewItem.createDiv({ cls: "ftpreview-preview-lines" });
-			previewLines.setText(previewText);
+			// Preview lines, with any filter matches highlighted, or a rendered Markdown excerpt
+			const previewLines = previewBody.createDiv({
+				cls: "ftpreview-preview-lines" + (this.isRenderedPreview(file) ? " ftpreview-preview-markdown" : "")
+			});
+			const previewText = loadPreviews ? this.getCachedPreviewText(file) : undefined;
+			if (previewText !== undefined) {
+				this.fillPreviewLines(previewLines, file, previewText);
+			} else if (loadPreviews) {
+				// Read lazily - the text is filled in once loaded
+				this.requestPreviewText(file);
+			}
 
 			// Apply dynamic line count from settings
-			const lineCount = this.plugin.data.previewLines;
 			previewLines.setCssProps({
 				'-webkit-line-clamp': lineCount.toString(),
 				height: `calc(1.4em * ${lineCount})`
 			});
 		}
 
-		// Click to open
-		previewItem.addEventListener("click", () => {
+		// Gallery tiles lead with the thumbnail
+		if (cardLayout === "gallery" && cardVisual) {
+			previewItem.prepend(cardVisual);
+		}
+
+		this.renderCardMetadata(previewItem, file);
+		if (this.plugin.data.showTaskProgress) {
+			this.renderTaskProgress(previewItem, file);
+		}
+		if (this.hasCardFooter()) {
+			this.fillCardFooter(previewItem.createDiv({ cls: "ftpreview-card-footer" }), file);
+		}
+
+		// Mark the card if it's part of the multi-file selection
+		if (this.selectedFiles.has(file.path)) {
+			previewItem.addClass("ftpreview-preview-item-selected");
+		}
+
+		// Click to open, Ctrl/Cmd-click or Shift-click to select
+		previewItem.addEventListener("click", (e) => {
+			if (e.ctrlKey || e.metaKey) {
+				this.toggleFileSelection(file);
+				return;
+			}
+			if (e.shiftKey) {
+				this.selectFileRange(file);
+				return;
+			}
+
+			this.clearFileSelection();
 			const openFile = async () => {
 				try {
 					await this.app.workspace.getLeaf(false).openFile(file);
@@ -2031,92 +5532,518 @@ class FileTreePreviewView extends ItemView {
 			openFile().catch(console.error);
 		});
 
-		// Touch handling for mobile: distinguish tap (open file) from hold (menu) from drag
-		let touchStartTime = 0;
-		let touchTimer: number | null = null;
-		let cardMenuShown = false;
+		// Touch handling for mobile: distinguish tap (open file) from hold (menu) from drag
+		let touchStartTime = 0;
+		let touchTimer: number | null = null;
+		let cardMenuShown = false;
+
+		previewItem.addEventListener("touchstart", (e) => {
+			touchStartTime = Date.now();
+			cardMenuShown = false;
+
+			// Set timer for long-press (500ms) to show menu
+			touchTimer = window.setTimeout(() => {
+				cardMenuShown = true;
+				touchTimer = null;
+
+				// Show context menu after long press
+				const menu = new Menu();
+				this.buildCardContextMenu(menu, file);
+
+				// Show menu at touch location
+				const touch = (e as TouchEvent).touches[0];
+				if (touch) {
+					menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
+				}
+			}, 500);
+		});
+
+		previewItem.addEventListener("touchmove", (e) => {
+			// If finger moves, user is dragging - cancel the menu timer
+			if (touchTimer) {
+				window.clearTimeout(touchTimer);
+				touchTimer = null;
+			}
+		});
+
+		previewItem.addEventListener("touchend", (e) => {
+			if (touchTimer) {
+				window.clearTimeout(touchTimer);
+				touchTimer = null;
+			}
+
+			const touchDuration = Date.now() - touchStartTime;
+
+			// Short tap - allow file to open (default click behavior)
+			if (touchDuration < 500 && !cardMenuShown) {
+				// Don't prevent default - let the card's click handler open the file
+			} else if (cardMenuShown) {
+				// Menu was shown, prevent file opening
+				e.preventDefault();
+			}
+		});
+
+		previewItem.addEventListener("touchcancel", () => {
+			if (touchTimer) {
+				window.clearTimeout(touchTimer);
+				touchTimer = null;
+			}
+		});
+
+		// Right-click context menu for files
+		previewItem.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			const menu = new Menu();
+			this.buildCardContextMenu(menu, file);
+			menu.showAtMouseEvent(e);
+		});
+
+		return previewItem;
+	}
+
+	private hasCardFooter(): boolean {
+		const { footerDate, showFooterSize, showFooterWordCount, showFooterReadingTime } = this.plugin.data;
+		return footerDate !== "off" || showFooterSize || showFooterWordCount || showFooterReadingTime;
+	}
+
+	private fillCardFooter(footer: HTMLElement, file: TFile) {
+		// The date the list is sorted by, then size, word count and reading time - text counts appear once the file is read
+		const { footerDate, showFooterSize, showFooterWordCount, showFooterReadingTime } = this.plugin.data;
+		const parts: string[] = [];
+
+		if (footerDate !== "off") {
+			const sortOrder = this.viewSettings.sortOrder;
+			const formatDate = (time: number) => footerDate === "relative"
+				? moment(time).fromNow()
+				: new Date(time).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+			if (sortOrder === "property") {
+				// Property sorts show the value being sorted on, formatted as a date when it is one
+				const { sortProperty } = this.viewSettings;
+				const value = sortProperty ? this.getPropertySortValue(file, sortProperty) : null;
+				if (value) {
+					// Other values are shown as written, first item for lists
+					const rawValue: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[sortProperty];
+					const text = String(Array.isArray(rawValue) ? rawValue[0] : rawValue).trim();
+					parts.push(`${sortProperty}: ${value.rank === 1 ? formatDate(value.value as number) : text}`);
+				}
+			} else {
+				const isCreated = sortOrder === "created-new" || sortOrder === "created-old";
+				const time = isCreated ? file.stat.ctime : file.stat.mtime;
+				parts.push(`${isCreated ? "Created" : "Modified"} ${formatDate(time)}`);
+			}
+		}
+		if (showFooterSize) {
+			parts.push(formatFileSize(file.stat.size));
+		}
+
+		const wordCount = this.getFileTypeInfo(file) ? undefined : this.plugin.previewCache.getWordCount(file, this.getPreviewSettingsKey());
+		if (wordCount !== undefined) {
+			if (showFooterWordCount) {
+				parts.push(wordCount === 1 ? "1 word" : `${wordCount} words`);
+			}
+			if (showFooterReadingTime && wordCount > 0) {
+				parts.push(`${Math.max(1, Math.round(wordCount / READING_WORDS_PER_MINUTE))} min read`);
+			}
+		}
+
+		footer.setText(parts.join(" · "));
+	}
+
+	private getBacklinks(file: TFile): string[] {
+		// Source paths of files linking to this one, from an index built once and then updated per resolved file
+		if (!this.backlinkIndex) {
+			this.backlinkIndex = new Map();
+			this.indexedLinkTargets.clear();
+			Object.keys(this.app.metadataCache.resolvedLinks).forEach(sourcePath => this.indexLinks(sourcePath));
+		}
+		return this.backlinkIndex.get(file.path) ?? [];
+	}
+
+	private indexLinks(sourcePath: string): string[] {
+		// Add a file's resolved links to the backlink index, returning the files it links to
+		const index = this.backlinkIndex;
+		const targets = Object.keys(this.app.metadataCache.resolvedLinks[sourcePath] ?? {}).filter(path => path !== sourcePath);
+		if (!index) return targets;
+		targets.forEach(targetPath => {
+			const sources = index.get(targetPath);
+			if (sources) {
+				sources.push(sourcePath);
+			} else {
+				index.set(targetPath, [sourcePath]);
+			}
+		});
+		this.indexedLinkTargets.set(sourcePath, targets);
+		return targets;
+	}
+
+	private updateBacklinkIndex(file: TFile): string[] {
+		// Replace one file's links in the backlink index, returning the files whose backlinks may have changed
+		const index = this.backlinkIndex;
+		if (!index) return [];
+		const oldTargets = this.indexedLinkTargets.get(file.path) ?? [];
+		oldTargets.forEach(targetPath => {
+			const sources = (index.get(targetPath) ?? []).filter(sourcePath => sourcePath !== file.path);
+			if (sources.length > 0) {
+				index.set(targetPath, sources);
+			} else {
+				index.delete(targetPath);
+			}
+		});
+		const newTargets = this.indexLinks(file.path);
+		return Array.from(new Set([...oldTargets, ...newTargets]));
+	}
+
+	private fillLinkBadges(badges: HTMLElement, file: TFile) {
+		// Badges only appear for counts above zero - click one to list the linked notes
+		badges.empty();
+		const backlinks = this.getBacklinks(file);
+		const outgoing = Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {}).filter(path => path !== file.path);
+		const unresolved = Object.keys(this.app.metadataCache.unresolvedLinks[file.path] ?? {});
+
+		const addBadge = (icon: string, count: number, label: string, buildMenu: (menu: Menu) => void, cls = "") => {
+			if (count === 0) return;
+			const badge = badges.createSpan({
+				cls: "ftpreview-link-badge" + cls,
+				attr: { role: "button", "aria-label": label }
+			});
+			setIcon(badge.createSpan({ cls: "ftpreview-link-badge-icon" }), icon);
+			badge.appendText(String(count));
+			badge.addEventListener("click", (e) => {
+				// Don't open the file
+				e.stopPropagation();
+				const menu = new Menu();
+				buildMenu(menu);
+				menu.showAtMouseEvent(e);
+			});
+		};
+
+		addBadge("links-coming-in", backlinks.length, backlinks.length === 1 ? "1 backlink" : `${backlinks.length} backlinks`,
+			menu => this.addLinkedFileItems(menu, backlinks));
+		addBadge("links-going-out", outgoing.length, outgoing.length === 1 ? "1 outgoing link" : `${outgoing.length} outgoing links`,
+			menu => this.addLinkedFileItems(menu, outgoing));
+		addBadge("alert-triangle", unresolved.length, unresolved.length === 1 ? "1 unresolved link" : `${unresolved.length} unresolved links`,
+			menu => {
+				// Unresolved links have nowhere to go, so they're listed for reference
+				unresolved.slice(0, LINK_MENU_MAX_ITEMS).forEach(link => {
+					menu.addItem(item => item.setTitle(link).setIcon("file-question").setDisabled(true));
+				});
+				this.addMoreLinksItem(menu, unresolved.length);
+			}, " ftpreview-link-badge-warning");
+	}
+
+	private addLinkedFileItems(menu: Menu, paths: string[]) {
+		// One entry per linked file, sorted by name - choosing one shows it in its folder
+		const files = paths
+			.map(path => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile)
+			.sort((a, b) => a.basename.localeCompare(b.basename));
+		files.slice(0, LINK_MENU_MAX_ITEMS).forEach(file => {
+			menu.addItem(item => item
+				.setTitle(file.parent && !file.parent.isRoot() ? `${file.basename} (${file.parent.path})` : file.basename)
+				.setIcon("file-text")
+				.onClick(() => {
+					this.revealFileInTree(file).catch(console.error);
+				}));
+		});
+		this.addMoreLinksItem(menu, files.length);
+	}
+
+	private addMoreLinksItem(menu: Menu, count: number) {
+		if (count > LINK_MENU_MAX_ITEMS) {
+			menu.addItem(item => item.setTitle(`and ${count - LINK_MENU_MAX_ITEMS} more`).setDisabled(true));
+		}
+	}
 
-		previewItem.addEventListener("touchstart", (e) => {
-			touchStartTime = Date.now();
-			cardMenuShown = false;
+	private async revealFileInTree(file: TFile) {
+		// Select the file's folder, expanding its ancestors, and bring its card into view
+		const folder = file.parent;
+		if (!folder) return;
 
-			// Set timer for long-press (500ms) to show menu
-			touchTimer = window.setTimeout(() => {
-				cardMenuShown = true;
-				touchTimer = null;
+		// A filtered tree may hide the folder, so show the whole tree again
+		let needsTreeRender = false;
+		if (this.treeFilter) {
+			this.clearTreeFilter();
+			needsTreeRender = true;
+		}
 
-				// Show context menu after long press
-				const menu = new Menu();
-				this.buildFileContextMenu(menu, file);
+		let ancestor = folder.parent;
+		while (ancestor) {
+			if (this.isFolderCollapsed(ancestor.path)) {
+				this.setFolderCollapsed(ancestor.path, false);
+				needsTreeRender = true;
+			}
+			ancestor = ancestor.parent;
+		}
+		if (needsTreeRender) {
+			await this.renderFileTree();
+		}
 
-				// Show menu at touch location
-				const touch = (e as TouchEvent).touches[0];
-				if (touch) {
-					menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
-				}
-			}, 500);
-		});
+		this.selectedFolder = folder;
+		this.updateSelectedFolderHighlight();
+		await this.renderPreview();
+		this.folderNodes.get(folder.path)?.header.scrollIntoView({ block: "nearest" });
+		this.focusCardAt(this.visibleFiles.indexOf(file));
+	}
 
-		previewItem.addEventListener("touchmove", (e) => {
-			// If finger moves, user is dragging - cancel the menu timer
-			if (touchTimer) {
-				window.clearTimeout(touchTimer);
-				touchTimer = null;
+	private getTaskCounts(file: TFile): { done: number; total: number } {
+		// Checkbox list items from the metadata cache - any mark other than a space counts as done, as in Obsidian
+		const listItems = this.app.metadataCache.getFileCache(file)?.listItems ?? [];
+		let done = 0;
+		let total = 0;
+		listItems.forEach(item => {
+			if (item.task === undefined) return;
+			total++;
+			if (item.task !== " ") {
+				done++;
 			}
 		});
+		return { done, total };
+	}
 
-		previewItem.addEventListener("touchend", (e) => {
-			if (touchTimer) {
-				window.clearTimeout(touchTimer);
-				touchTimer = null;
-			}
+	private hasOpenTasks(file: TFile): boolean {
+		const { done, total } = this.getTaskCounts(file);
+		return done < total;
+	}
 
-			const touchDuration = Date.now() - touchStartTime;
+	private renderTaskProgress(previewItem: HTMLElement, file: TFile) {
+		// Progress bar and "7/12 done" for notes with tasks
+		const { done, total } = this.getTaskCounts(file);
+		if (total === 0) return;
 
-			// Short tap - allow file to open (default click behavior)
-			if (touchDuration < 500 && !cardMenuShown) {
-				// Don't prevent default - let the card's click handler open the file
-			} else if (cardMenuShown) {
-				// Menu was shown, prevent file opening
-				e.preventDefault();
-			}
+		const progress = previewItem.createDiv({
+			cls: "ftpreview-task-progress" + (done === total ? " ftpreview-task-progress-complete" : ""),
+			attr: { "aria-label": `${done} of ${total} tasks done` }
 		});
+		const bar = progress.createDiv({ cls: "ftpreview-task-progress-bar" });
+		bar.createDiv({ cls: "ftpreview-task-progress-fill" }).setCssProps({ width: `${Math.round((done / total) * 100)}%` });
+		progress.createSpan({ cls: "ftpreview-task-progress-label", text: `${done}/${total} done` });
+	}
 
-		previewItem.addEventListener("touchcancel", () => {
-			if (touchTimer) {
-				window.clearTimeout(touchTimer);
-				touchTimer = null;
-			}
+	private setOpenTasksOnly(openTasksOnly: boolean) {
+		// Always saved with the folder's view - there is no global setting for it
+		if (!this.selectedFolder) return;
+		this.setFolderOverride(this.selectedFolder, "openTasksOnly", openTasksOnly, false);
+	}
+
+	private queueMetadataCardUpdate(file: TFile) {
+		// Metadata changes with every keystroke in a note, so wait for a pause like file edits do
+		this.pendingMetadataUpdates.add(file.path);
+		if (this.metadataDebounceTimer !== null) {
+			window.clearTimeout(this.metadataDebounceTimer);
+		}
+		this.metadataDebounceTimer = window.setTimeout(() => {
+			this.metadataDebounceTimer = null;
+			const paths = Array.from(this.pendingMetadataUpdates);
+			this.pendingMetadataUpdates.clear();
+			this.getFilesFromPaths(paths)
+				.filter(changedFile => this.renderedCards.has(changedFile.path))
+				.forEach(changedFile => this.updateSinglePreviewCard(changedFile).catch(console.error));
+		}, CARD_UPDATE_DEBOUNCE_MS);
+	}
+
+	private isCardUsingMetadata(): boolean {
+		// Whether cards show anything read from the metadata cache
+		const { showCardTags, cardProperties, coverLayout, showTaskProgress } = this.plugin.data;
+		return showCardTags || cardProperties.length > 0 || coverLayout !== "off" || showTaskProgress;
+	}
+
+	private getCoverImageSource(file: TFile): string | null {
+		// A "cover" or "image" property, else the first embedded or linked image in the note
+		// Only images in the vault are used, so cards never load anything from the web
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return null;
+
+		for (const key of ["cover", "image"]) {
+			const value: unknown = cache.frontmatter?.[key];
+			const text = typeof value === "string" ? value.trim() : "";
+			if (!text) continue;
+			const source = this.resolveImageLink(text.replace(/^!?\[\[|\]\]$/g, "").split("|")[0], file);
+			if (source) return source;
+		}
+
+		const references = [...(cache.embeds ?? []), ...(cache.links ?? [])]
+			.sort((a, b) => a.position.start.offset - b.position.start.offset);
+		for (const reference of references) {
+			const source = this.resolveImageLink(reference.link, file);
+			if (source) return source;
+		}
+		return null;
+	}
+
+	private resolveImageLink(link: string, file: TFile): string | null {
+		// Resource URL for a link to an image in the vault, or null if it isn't one
+		const linkpath = link.split("#")[0].trim();
+		if (!linkpath) return null;
+		const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+		if (!target || this.getFileTypeInfo(target)?.type !== "image") return null;
+		return this.app.vault.getResourcePath(target);
+	}
+
+	private renderCardMetadata(previewItem: HTMLElement, file: TFile) {
+		// Tags and chosen properties as chips - clicking one filters the folder by it
+		const chips: { text: string; label?: string; query: string }[] = [];
+		this.plugin.data.cardProperties.forEach(key => {
+			this.getPropertyValues(file, key).forEach(value => {
+				chips.push({ text: value, label: key, query: `[${key}:${value}]` });
+			});
 		});
+		if (this.plugin.data.showCardTags) {
+			this.getFileTags(file).forEach(tag => chips.push({ text: `#${tag}`, query: `#${tag}` }));
+		}
+		if (chips.length === 0) return;
+
+		const activeQuery = this.previewFilter.trim().toLowerCase();
+		const metadataRow = previewItem.createDiv({ cls: "ftpreview-card-meta" });
+		chips.forEach(chip => {
+			const chipEl = metadataRow.createSpan({
+				cls: "ftpreview-card-chip" + (chip.query.toLowerCase() === activeQuery ? " ftpreview-card-chip-active" : ""),
+				attr: { "aria-label": `Filter by ${chip.label ? `${chip.label}: ${chip.text}` : chip.text}` }
+			});
+			if (chip.label) {
+				chipEl.createSpan({ cls: "ftpreview-card-chip-label", text: chip.label });
+			}
+			chipEl.appendText(chip.text);
 
-		// Right-click context menu for files
-		previewItem.addEventListener("contextmenu", (e) => {
-			e.preventDefault();
-			const menu = new Menu();
-			this.buildFileContextMenu(menu, file);
-			menu.showAtMouseEvent(e);
+			chipEl.addEventListener("click", (e) => {
+				// Don't open the file
+				e.stopPropagation();
+				this.setPreviewFilter(chip.query);
+			});
 		});
 	}
 
-	private extractPreviewText(content: string): string {
-		let text = content.trim();
+	private extractPreviewText(content: string, file: TFile): string {
+		// Keep the frontmatter for property sources, and take the preview from the rest
+		const { frontmatter, body: text } = splitFrontmatter(content);
+
+		// Try the chosen source first, then fall back down the chain until one gives some text
+		const chain = PREVIEW_SOURCE_CHAIN.slice(PREVIEW_SOURCE_CHAIN.indexOf(this.plugin.data.previewSource));
+		const isRendered = this.isRenderedPreview(file);
+		for (const source of chain) {
+			const sourceText = this.getPreviewSourceText(source, text, frontmatter);
+			const previewText = isRendered ? this.getMarkdownExcerpt(sourceText) : this.cleanPreviewText(sourceText);
+			if (previewText) {
+				return previewText;
+			}
+		}
+		return "";
+	}
+
+	private getPreviewSourceText(source: PreviewSource, body: string, frontmatter: string): string {
+		// Raw Markdown for one preview source - an empty string means the source has nothing to show
+		const lines = body.split("\n");
+		const headingPattern = /^(#{1,6})\s+(.*)$/;
+
+		switch (source) {
+			case "body":
+				return body;
+			case "after-heading": {
+				// First paragraph after the first heading
+				const headingIndex = lines.findIndex(line => headingPattern.test(line));
+				if (headingIndex === -1) return "";
+				const paragraph: string[] = [];
+				for (const line of lines.slice(headingIndex + 1)) {
+					if (headingPattern.test(line)) break;
+					if (line.trim() === "") {
+						if (paragraph.length > 0) break;
+						continue;
+					}
+					paragraph.push(line);
+				}
+				return paragraph.join("\n");
+			}
+			case "property": {
+				if (!frontmatter) return "";
+				let properties: unknown;
+				try {
+					properties = parseYaml(frontmatter);
+				} catch {
+					// Invalid YAML just means there's no property to show
+					return "";
+				}
+				if (!properties || typeof properties !== "object") return "";
+				for (const key of this.plugin.data.previewSourceProperties) {
+					const value: unknown = (properties as Record<string, unknown>)[key];
+					const text = Array.isArray(value) ? value.join(", ") : value;
+					if (typeof text === "string" || typeof text === "number") {
+						return String(text);
+					}
+				}
+				return "";
+			}
+			case "section": {
+				// Everything under the named heading, up to the next heading of the same or a higher level
+				const name = this.plugin.data.previewSourceHeading.trim().toLowerCase();
+				if (!name) return "";
+				let level = 0;
+				const section: string[] = [];
+				for (const line of lines) {
+					const match = line.match(headingPattern);
+					if (level === 0) {
+						if (match && match[2].trim().toLowerCase() === name) {
+							level = match[1].length;
+						}
+					} else if (match && match[1].length <= level) {
+						break;
+					} else {
+						section.push(line);
+					}
+				}
+				return section.join("\n");
+			}
+		}
+	}
 
-		// Remove YAML frontmatter (between --- delimiters)
-		if (text.startsWith("---")) {
-			// Find the closing --- (must be on its own line)
-			const lines = text.split("\n");
-			let endIndex = -1;
-			for (let i = 1; i < lines.length; i++) {
-				if (lines[i].trim() === "---") {
-					endIndex = i;
-					break;
+	private getMarkdownExcerpt(markdown: string): string {
+		// A short, self-contained slice of Markdown for rendered previews, with embeds and heavy blocks neutralised
+		const text = markdown
+			.replace(/!\[\[([^\]]+)\]\]/g, "[[$1]]") // Embeds become plain links
+			.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images become their alt text
+			.replace(/<(iframe|video|audio|img|object|embed)\b[^>]*>(\s*<\/\1>)?/gi, ""); // No embedded media
+
+		// The card clamps the height, so a few source lines per preview line is plenty
+		const lines = text.trim().split("\n").slice(0, this.viewSettings.previewLines * 3);
+		const excerpt: string[] = [];
+		let fence: string | null = null;
+		let skippingBlock = false;
+		let mathOpen = false;
+
+		for (const line of lines) {
+			const fenceMatch = line.match(/^\s*(`{3,}|~{3,})\s*([\w-]*)/);
+			if (fence === null && fenceMatch) {
+				fence = fenceMatch[1];
+				const language = fenceMatch[2].toLowerCase();
+				skippingBlock = RENDERED_PREVIEW_SKIPPED_LANGUAGES.includes(language);
+				excerpt.push(skippingBlock ? `\`${language}\`` : line);
+				continue;
+			}
+			if (fence !== null && line.trim().startsWith(fence)) {
+				fence = null;
+				if (!skippingBlock) {
+					excerpt.push(line);
 				}
+				skippingBlock = false;
+				continue;
 			}
-			if (endIndex !== -1) {
-				// Skip the frontmatter and rejoin remaining lines
-				text = lines.slice(endIndex + 1).join("\n").trim();
+			if (skippingBlock) continue;
+			if (fence === null && line.trim() === "$$") {
+				mathOpen = !mathOpen;
 			}
+			excerpt.push(line);
+		}
+
+		// Close any block the cut-off left open so it doesn't swallow the rest of the render
+		if (fence !== null && !skippingBlock) {
+			excerpt.push(fence);
+		}
+		if (mathOpen) {
+			excerpt.push("$$");
 		}
+		return excerpt.join("\n").trim();
+	}
+
+	private cleanPreviewText(markdown: string): string {
+		let text = markdown;
 
 		// Remove inline properties (key:: value format)
 		text = text.replace(/^[\w-]+::.+$/gm, "");
@@ -2146,7 +6073,7 @@ class FileTreePreviewView extends ItemView {
 		// Short source lines need more lines to fill the narrow preview card width
 		// CSS line-clamp will handle the visual truncation at the display line limit
 		const allLines = text.split("\n").filter(line => line.trim().length > 0);
-		const lineLimit = this.plugin.data.previewLines * 10;
+		const lineLimit = this.viewSettings.previewLines * 10;
 		const limitedLines = allLines.slice(0, lineLimit);
 		return limitedLines.join(" ");
 	}
@@ -2166,44 +6093,306 @@ class RenameModal extends Modal {
 		const { contentEl } = this;
 		contentEl.empty();
 
-		contentEl.createEl("h3", { text: "Rename" });
+		contentEl.createEl("h3", { text: "Rename" });
+
+		const inputEl = contentEl.createEl("input", {
+			type: "text",
+			value: this.oldName,
+			cls: "ftpreview-rename-input"
+		});
+
+		// Select the text without extension if it's a file
+		const dotIndex = this.oldName.lastIndexOf('.');
+		if (dotIndex > 0) {
+			inputEl.setSelectionRange(0, dotIndex);
+		} else {
+			inputEl.select();
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: "ftpreview-button-container" });
+
+		const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.close());
+
+		const submitButton = buttonContainer.createEl("button", { text: "Rename", cls: "mod-cta" });
+		submitButton.addEventListener("click", () => {
+			const newName = inputEl.value.trim();
+			if (newName && newName !== this.oldName) {
+				this.onSubmit(newName);
+			}
+			this.close();
+		});
+
+		// Submit on Enter key
+		inputEl.addEventListener("keypress", (e) => {
+			if (e.key === "Enter") {
+				submitButton.click();
+			}
+		});
+
+		inputEl.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class SortPropertyModal extends Modal {
+	private properties: string[];
+	private options: SortPropertyOptions;
+	private onSubmit: (options: SortPropertyOptions) => void;
+
+	constructor(app: App, properties: string[], options: SortPropertyOptions, onSubmit: (options: SortPropertyOptions) => void) {
+		super(app);
+		this.properties = properties;
+		this.options = { ...options };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h3", { text: "Sort by property" });
+
+		// Suggest property names used in the current folder
+		const datalist = contentEl.createEl("datalist", { attr: { id: "ftpreview-sort-properties" } });
+		this.properties.forEach(property => datalist.createEl("option", { value: property }));
+
+		const propertySetting = new Setting(contentEl)
+			.setName("Property")
+			.setDesc("Dates, numbers and text are each compared by their own type")
+			.addText(text => {
+				text.setPlaceholder("date")
+					.setValue(this.options.property)
+					.onChange(value => this.options.property = value.trim());
+				text.inputEl.setAttribute("list", "ftpreview-sort-properties");
+			});
+		const propertyInput = propertySetting.controlEl.querySelector("input");
+
+		new Setting(contentEl)
+			.setName("Order")
+			.addDropdown(dropdown => dropdown
+				.addOption("asc", "Ascending")
+				.addOption("desc", "Descending")
+				.setValue(this.options.descending ? "desc" : "asc")
+				.onChange(value => this.options.descending = value === "desc"));
+
+		new Setting(contentEl)
+			.setName("Notes without the property")
+			.addDropdown(dropdown => dropdown
+				.addOption("last", "Show last")
+				.addOption("first", "Show first")
+				.setValue(this.options.missing)
+				.onChange((value: MissingPropertyPlacement) => this.options.missing = value));
+
+		const buttonContainer = contentEl.createDiv({ cls: "ftpreview-button-container" });
+
+		const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.close());
+
+		const submitButton = buttonContainer.createEl("button", { text: "Sort", cls: "mod-cta" });
+		submitButton.addEventListener("click", () => {
+			if (this.options.property) {
+				this.onSubmit(this.options);
+			}
+			this.close();
+		});
+
+		// Submit on Enter key
+		propertyInput?.addEventListener("keypress", (e) => {
+			if (e.key === "Enter") {
+				submitButton.click();
+			}
+		});
+
+		propertyInput?.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class FolderViewModal extends Modal {
+	private folderName: string;
+	private preset: FolderViewPreset;
+	private onSubmit: (preset: FolderViewPreset | null) => void;
+
+	constructor(app: App, folderName: string, preset: FolderViewPreset | undefined, onSubmit: (preset: FolderViewPreset | null) => void) {
+		super(app);
+		this.folderName = folderName;
+		this.preset = preset ? { ...preset } : { applyToSubfolders: false };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h3", { text: `View for ${this.folderName}` });
+		contentEl.createEl("p", { text: "Options left on \"Default\" use the global settings." });
+
+		new Setting(contentEl)
+			.setName("Sort")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "Default");
+				(Object.keys(SORT_ORDER_LABELS) as SortOrder[]).forEach(sortOrder => {
+					dropdown.addOption(sortOrder, SORT_ORDER_LABELS[sortOrder]);
+				});
+				dropdown.setValue(this.preset.sortOrder ?? "")
+					.onChange((value: SortOrder | "") => this.preset.sortOrder = value || undefined);
+			});
+
+		new Setting(contentEl)
+			.setName("Sort property")
+			.setDesc("Frontmatter property used by the \"Property\" sort")
+			.addText(text => text
+				.setPlaceholder("Default")
+				.setValue(this.preset.sortProperty ?? "")
+				.onChange(value => this.preset.sortProperty = value.trim() || undefined));
+
+		new Setting(contentEl)
+			.setName("Property order")
+			.addDropdown(dropdown => dropdown
+				.addOption("", "Default")
+				.addOption("asc", "Ascending")
+				.addOption("desc", "Descending")
+				.setValue(this.preset.sortPropertyDescending === undefined ? "" : this.preset.sortPropertyDescending ? "desc" : "asc")
+				.onChange(value => this.preset.sortPropertyDescending = value ? value === "desc" : undefined));
+
+		new Setting(contentEl)
+			.setName("Notes without the property")
+			.addDropdown(dropdown => dropdown
+				.addOption("", "Default")
+				.addOption("last", "Show last")
+				.addOption("first", "Show first")
+				.setValue(this.preset.sortPropertyMissing ?? "")
+				.onChange((value: MissingPropertyPlacement | "") => this.preset.sortPropertyMissing = value || undefined));
+
+		new Setting(contentEl)
+			.setName("Preview lines")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "Default");
+				for (let lines = 1; lines <= 10; lines++) {
+					dropdown.addOption(String(lines), String(lines));
+				}
+				dropdown.setValue(this.preset.previewLines !== undefined ? String(this.preset.previewLines) : "")
+					.onChange(value => this.preset.previewLines = value ? parseInt(value) : undefined);
+			});
+
+		new Setting(contentEl)
+			.setName("Card layout")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "Default");
+				(Object.keys(CARD_LAYOUT_LABELS) as CardLayout[]).forEach(cardLayout => {
+					dropdown.addOption(cardLayout, CARD_LAYOUT_LABELS[cardLayout]);
+				});
+				dropdown.setValue(this.preset.cardLayout ?? "")
+					.onChange((value: CardLayout | "") => this.preset.cardLayout = value || undefined);
+			});
+
+		// Every type shown means no type filter
+		const fileTypes = new Set<FileCategory>(this.preset.fileTypes ?? (Object.keys(FILE_CATEGORY_LABELS) as FileCategory[]));
+		new Setting(contentEl).setHeading().setName("File types");
+		(Object.keys(FILE_CATEGORY_LABELS) as FileCategory[]).forEach(category => {
+			new Setting(contentEl)
+				.setName(FILE_CATEGORY_LABELS[category])
+				.addToggle(toggle => toggle
+					.setValue(fileTypes.has(category))
+					.onChange(value => {
+						if (value) {
+							fileTypes.add(category);
+						} else {
+							fileTypes.delete(category);
+						}
+					}));
+		});
+
+		new Setting(contentEl)
+			.setName("Only notes with open tasks")
+			.setDesc("Hide files without unchecked tasks")
+			.addDropdown(dropdown => dropdown
+				.addOption("", "Default")
+				.addOption("on", "On")
+				.addOption("off", "Off")
+				.setValue(this.preset.openTasksOnly === undefined ? "" : this.preset.openTasksOnly ? "on" : "off")
+				.onChange(value => this.preset.openTasksOnly = value ? value === "on" : undefined));
+
+		new Setting(contentEl)
+			.setName("Apply to subfolders")
+			.setDesc("Subfolders without their own view use these options")
+			.addToggle(toggle => toggle
+				.setValue(this.preset.applyToSubfolders)
+				.onChange(value => this.preset.applyToSubfolders = value));
+
+		const buttonContainer = contentEl.createDiv({ cls: "ftpreview-button-container" });
+
+		const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.close());
+
+		const submitButton = buttonContainer.createEl("button", { text: "Save", cls: "mod-cta" });
+		submitButton.addEventListener("click", () => {
+			const allTypes = fileTypes.size === Object.keys(FILE_CATEGORY_LABELS).length;
+			const preset: FolderViewPreset = {
+				...this.preset,
+				fileTypes: allTypes ? undefined : (Object.keys(FILE_CATEGORY_LABELS) as FileCategory[]).filter(category => fileTypes.has(category))
+			};
+			this.onSubmit(isPresetEmpty(preset) ? null : preset);
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class DeleteFolderModal extends Modal {
+	private folderName: string;
+	private onConfirm: () => void;
+
+	constructor(app: App, folderName: string, onConfirm: () => void) {
+		super(app);
+		this.folderName = folderName;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h3", { text: "Delete folder" });
 
-		const inputEl = contentEl.createEl("input", {
-			type: "text",
-			value: this.oldName,
-			cls: "ftpreview-rename-input"
+		const warningEl = contentEl.createDiv({ cls: "ftpreview-delete-warning" });
+
+		warningEl.createEl("p", {
+			text: `Are you sure you want to delete "${this.folderName}"?`
 		});
 
-		// Select the text without extension if it's a file
-		const dotIndex = this.oldName.lastIndexOf('.');
-		if (dotIndex > 0) {
-			inputEl.setSelectionRange(0, dotIndex);
-		} else {
-			inputEl.select();
-		}
+		contentEl.createEl("p", {
+			text: "This will delete the folder and all of its contents (files and subfolders). This action cannot be undone.",
+			cls: "ftpreview-delete-detail"
+		});
 
 		const buttonContainer = contentEl.createDiv({ cls: "ftpreview-button-container" });
+		buttonContainer.setCssProps({ marginTop: "20px" });
 
 		const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
 		cancelButton.addEventListener("click", () => this.close());
 
-		const submitButton = buttonContainer.createEl("button", { text: "Rename", cls: "mod-cta" });
-		submitButton.addEventListener("click", () => {
-			const newName = inputEl.value.trim();
-			if (newName && newName !== this.oldName) {
-				this.onSubmit(newName);
-			}
+		const deleteButton = buttonContainer.createEl("button", { text: "Delete", cls: "mod-warning" });
+		deleteButton.addEventListener("click", () => {
+			this.onConfirm();
 			this.close();
 		});
 
-		// Submit on Enter key
-		inputEl.addEventListener("keypress", (e) => {
-			if (e.key === "Enter") {
-				submitButton.click();
-			}
-		});
-
-		inputEl.focus();
+		// Focus cancel button by default for safety
+		cancelButton.focus();
 	}
 
 	onClose() {
@@ -2212,13 +6401,13 @@ class RenameModal extends Modal {
 	}
 }
 
-class DeleteFolderModal extends Modal {
-	private folderName: string;
+class DeleteFilesModal extends Modal {
+	private fileCount: number;
 	private onConfirm: () => void;
 
-	constructor(app: App, folderName: string, onConfirm: () => void) {
+	constructor(app: App, fileCount: number, onConfirm: () => void) {
 		super(app);
-		this.folderName = folderName;
+		this.fileCount = fileCount;
 		this.onConfirm = onConfirm;
 	}
 
@@ -2226,16 +6415,16 @@ class DeleteFolderModal extends Modal {
 		const { contentEl } = this;
 		contentEl.empty();
 
-		contentEl.createEl("h3", { text: "Delete folder" });
+		contentEl.createEl("h3", { text: "Delete files" });
 
 		const warningEl = contentEl.createDiv({ cls: "ftpreview-delete-warning" });
 
 		warningEl.createEl("p", {
-			text: `Are you sure you want to delete "${this.folderName}"?`
+			text: `Are you sure you want to delete ${this.fileCount} files?`
 		});
 
 		contentEl.createEl("p", {
-			text: "This will delete the folder and all of its contents (files and subfolders). This action cannot be undone.",
+			text: "The files will be moved to the trash.",
 			cls: "ftpreview-delete-detail"
 		});
 
@@ -2261,6 +6450,30 @@ class DeleteFolderModal extends Modal {
 	}
 }
 
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private onChoose: (folder: TFolder) => void;
+
+	constructor(app: App, onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a folder");
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((item): item is TFolder => item instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		// Show the vault name for the root folder
+		return folder.isRoot() ? this.app.vault.getName() : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onChoose(folder);
+	}
+}
+
 class FileTreePreviewSettingTab extends PluginSettingTab {
 	plugin: FileTreePreviewPlugin;
 
@@ -2353,6 +6566,69 @@ class FileTreePreviewSettingTab extends PluginSettingTab {
 					});
 				}));
 
+		new Setting(containerEl)
+			.setName('Folder order')
+			.setDesc('How folders are sorted in the folder tree. Pinned folders always come first.')
+			.addDropdown(dropdown => dropdown
+				.addOption('name', 'Name')
+				.addOption('modified', 'Most recently modified')
+				.addOption('file-count', 'Most files')
+				.addOption('manual', 'Manual (drag to reorder)')
+				.setValue(this.plugin.data.folderSortOrder)
+				.onChange(async (value: FolderSortOrder) => {
+					this.plugin.data.folderSortOrder = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.countFolderFiles();
+							leaf.view.renderFileTree().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Folder file counts')
+			.setDesc('Show how many files each folder holds in the folder tree')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Hidden')
+				.addOption('direct', 'Files in the folder')
+				.addOption('recursive', 'Files including subfolders')
+				.addOption('both', 'Both')
+				.setValue(this.plugin.data.folderCountBadge)
+				.onChange(async (value: FolderCountBadge) => {
+					this.plugin.data.folderCountBadge = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.countFolderFiles();
+							leaf.view.renderFileTree().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('New file badges')
+			.setDesc('Show how many files in each folder were added or changed since you last opened it. Folder visits are only recorded while this is on.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showNewFilesBadge)
+				.onChange(async (value) => {
+					this.plugin.data.showNewFilesBadge = value;
+					if (!value) {
+						// Visit times only serve the badges, so don't keep them around
+						this.plugin.data.folderLastVisited = {};
+					}
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.countFolderFiles();
+							leaf.view.renderFileTree().catch(console.error);
+						}
+					});
+				}));
+
 		new Setting(containerEl)
 			.setName('Show root folder')
 			.setDesc('Display the vault name as a root folder containing all other folders')
@@ -2387,6 +6663,245 @@ class FileTreePreviewSettingTab extends PluginSettingTab {
 					});
 				}));
 
+		new Setting(containerEl)
+			.setName('New files in manual order')
+			.setDesc('Where files not yet placed by dragging appear when sorting manually')
+			.addDropdown(dropdown => dropdown
+				.addOption('top', 'At the top')
+				.addOption('bottom', 'At the bottom')
+				.setValue(this.plugin.data.manualOrderNewFiles)
+				.onChange(async (value: NewFilePlacement) => {
+					this.plugin.data.manualOrderNewFiles = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Show tags on cards')
+			.setDesc('Show each note\'s tags as chips below its preview. Click a chip to filter the folder by that tag.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showCardTags)
+				.onChange(async (value) => {
+					this.plugin.data.showCardTags = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Properties on cards')
+			.setDesc('Comma-separated frontmatter properties to show on cards, for example "status, due"')
+			.addText(text => text
+				.setPlaceholder('status, due')
+				.setValue(this.plugin.data.cardProperties.join(', '))
+				.onChange(async (value) => {
+					this.plugin.data.cardProperties = value.split(',').map(key => key.trim()).filter(key => key.length > 0);
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Show task progress')
+			.setDesc('Show a progress bar and the number of completed tasks on cards for notes with checkboxes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showTaskProgress)
+				.onChange(async (value) => {
+					this.plugin.data.showTaskProgress = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Show link badges')
+			.setDesc('Show backlink and outgoing link counts on cards, and a warning when a note has unresolved links. Click a badge to list the linked notes.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showLinkBadges)
+				.onChange(async (value) => {
+					this.plugin.data.showLinkBadges = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview source')
+			.setDesc('Where card preview text comes from. When the source is empty, the next one down the list is used.')
+			.addDropdown(dropdown => dropdown
+				.addOption('property', 'Frontmatter property')
+				.addOption('section', 'Section under a heading')
+				.addOption('after-heading', 'First paragraph after the first heading')
+				.addOption('body', 'Start of the note')
+				.setValue(this.plugin.data.previewSource)
+				.onChange(async (value: PreviewSource) => {
+					this.plugin.data.previewSource = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview properties')
+			.setDesc('Comma-separated frontmatter properties for the property source, tried in order')
+			.addText(text => text
+				.setPlaceholder('summary, description')
+				.setValue(this.plugin.data.previewSourceProperties.join(', '))
+				.onChange(async (value) => {
+					this.plugin.data.previewSourceProperties = value.split(',').map(key => key.trim()).filter(key => key.length > 0);
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview heading')
+			.setDesc('Heading whose section is shown by the section source, for example "Summary"')
+			.addText(text => text
+				.setPlaceholder('Summary')
+				.setValue(this.plugin.data.previewSourceHeading)
+				.onChange(async (value) => {
+					this.plugin.data.previewSourceHeading = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Render Markdown in previews')
+			.setDesc('Show note previews as formatted Markdown (math, callouts, checkboxes, code) instead of plain text. Embeds and query blocks are not rendered.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.renderMarkdownPreviews)
+				.onChange(async (value) => {
+					this.plugin.data.renderMarkdownPreviews = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Cover images')
+			.setDesc('Show a thumbnail for notes with a "cover" or "image" property or an embedded image, taken from images in the vault')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Hidden')
+				.addOption('beside', 'Beside the preview text')
+				.addOption('above', 'Above the preview text')
+				.setValue(this.plugin.data.coverLayout)
+				.onChange(async (value: CoverLayout) => {
+					this.plugin.data.coverLayout = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Footer date')
+			.setDesc('Show a footer line on cards with the date the list is sorted by - created for created-date sorts, the property value for property sorts, otherwise modified')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Hidden')
+				.addOption('relative', 'Relative (3 days ago)')
+				.addOption('absolute', 'Absolute (Oct 15, 2026)')
+				.setValue(this.plugin.data.footerDate)
+				.onChange(async (value: FooterDateStyle) => {
+					this.plugin.data.footerDate = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Footer file size')
+			.setDesc('Show each file\'s size in the card footer')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showFooterSize)
+				.onChange(async (value) => {
+					this.plugin.data.showFooterSize = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Footer word count')
+			.setDesc('Show the word count of notes in the card footer, not counting frontmatter')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showFooterWordCount)
+				.onChange(async (value) => {
+					this.plugin.data.showFooterWordCount = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
+		new Setting(containerEl)
+			.setName('Footer reading time')
+			.setDesc('Show an estimated reading time for notes in the card footer, at 200 words per minute')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.data.showFooterReadingTime)
+				.onChange(async (value) => {
+					this.plugin.data.showFooterReadingTime = value;
+					await this.plugin.savePluginData();
+					// Refresh all open views
+					this.app.workspace.getLeavesOfType(VIEW_TYPE_FILE_TREE_PREVIEW).forEach(leaf => {
+						if (leaf.view instanceof FileTreePreviewView) {
+							leaf.view.renderPreview().catch(console.error);
+						}
+					});
+				}));
+
 		new Setting(containerEl)
 			.setName('Remove link brackets')
 			.setDesc('Remove brackets from wiki links and Markdown links in preview text')